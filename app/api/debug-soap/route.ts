@@ -1,67 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const HIT_CREDENTIALS = {
-  username: "extendtech",
-  password: "e8e1d66dfeefdf2f0f89f013dde032b9",
-};
-
-const HIT_ENDPOINTS = {
-  productData: "https://ppds.hitpromo.net/productData?ws=1",
-  ppc: "https://ppds.hitpromo.net/pricingAndConfiguration?ws=1",
-};
+import { resolveSupplier, getSupplierEndpoint } from '@/lib/suppliers';
+import { postSoap } from '@/lib/soap-transport';
+import { buildSoapEnvelope } from '@/lib/soap-envelope';
+import { createRequestTrace, redact } from '@/lib/debug-log';
 
 export async function GET(request: NextRequest) {
+  const trace = createRequestTrace(request.headers);
+  // Supplier payloads only go back to the browser at the full debug level
+  const includePayloads = trace.level === 'full';
+
   const searchParams = request.nextUrl.searchParams;
   const productId = searchParams.get('productId') || '55900';
   const operation = searchParams.get('operation') || 'getFobPoints';
+  const supplierId = searchParams.get('supplier') || undefined;
 
   const results: any = {
+    supplierId,
     productId,
     operation,
     timestamp: new Date().toISOString(),
   };
 
   try {
+    const supplier = resolveSupplier(supplierId);
+    const endpoint = getSupplierEndpoint(supplier, 'ppc');
+    results.supplierId = supplier.id;
+
     if (operation === 'getFobPoints') {
       // Get FOB Points
-      const fobEnvelope = `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Body>
-    <GetFobPointsRequest xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/">
-      <wsVersion xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">1.0.0</wsVersion>
-      <id xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.username}</id>
-      <password xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.password}</password>
-      <productId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${productId}</productId>
-      <localizationCountry xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">US</localizationCountry>
-      <localizationLanguage xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">en</localizationLanguage>
-    </GetFobPointsRequest>
-  </soap:Body>
-</soap:Envelope>`;
+      const fobEnvelope = buildSoapEnvelope({
+        service: 'ppc',
+        version: endpoint.version,
+        operation: 'GetFobPointsRequest',
+        credentials: supplier.credentials,
+        fields: {
+          productId,
+          localizationCountry: 'US',
+          localizationLanguage: 'en',
+        },
+      });
 
       results.request = {
-        url: HIT_ENDPOINTS.ppc,
+        url: endpoint.url,
         headers: {
           "Content-Type": "text/xml; charset=utf-8",
           "SOAPAction": '"getFobPoints"',
         },
-        body: fobEnvelope,
+        body: includePayloads ? redact(fobEnvelope) : undefined,
       };
 
-      const response = await fetch(HIT_ENDPOINTS.ppc, {
-        method: "POST",
-        headers: {
-          "Content-Type": "text/xml; charset=utf-8",
-          "SOAPAction": '"getFobPoints"',
-        },
-        body: fobEnvelope,
-      });
-
-      const text = await response.text();
+      const response = await postSoap(trace, supplier, endpoint, 'getFobPoints', fobEnvelope, 'GetFobPoints');
+      const text = response.body;
       results.response = {
         status: response.status,
         statusText: response.statusText,
         contentLength: text.length,
-        rawXml: text,
+        rawXml: includePayloads ? redact(text) : undefined,
       };
 
       // Extract fobId
@@ -79,48 +73,38 @@ export async function GET(request: NextRequest) {
     } else if (operation === 'getConfigurationAndPricing') {
       const fobId = searchParams.get('fobId') || '1';
 
-      const configEnvelope = `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Body>
-    <GetConfigurationAndPricingRequest xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/">
-      <wsVersion xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">1.0.0</wsVersion>
-      <id xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.username}</id>
-      <password xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.password}</password>
-      <productId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${productId}</productId>
-      <currency xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">USD</currency>
-      <fobId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${fobId}</fobId>
-      <priceType xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">Net</priceType>
-      <localizationCountry xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">US</localizationCountry>
-      <localizationLanguage xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">en</localizationLanguage>
-      <configurationType xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">Decorated</configurationType>
-    </GetConfigurationAndPricingRequest>
-  </soap:Body>
-</soap:Envelope>`;
+      const configEnvelope = buildSoapEnvelope({
+        service: 'ppc',
+        version: endpoint.version,
+        operation: 'GetConfigurationAndPricingRequest',
+        credentials: supplier.credentials,
+        fields: {
+          productId,
+          currency: 'USD',
+          fobId,
+          priceType: 'Net',
+          localizationCountry: 'US',
+          localizationLanguage: 'en',
+          configurationType: 'Decorated',
+        },
+      });
 
       results.request = {
-        url: HIT_ENDPOINTS.ppc,
+        url: endpoint.url,
         headers: {
           "Content-Type": "text/xml; charset=utf-8",
           "SOAPAction": '"getConfigurationAndPricing"',
         },
-        body: configEnvelope,
+        body: includePayloads ? redact(configEnvelope) : undefined,
       };
 
-      const response = await fetch(HIT_ENDPOINTS.ppc, {
-        method: "POST",
-        headers: {
-          "Content-Type": "text/xml; charset=utf-8",
-          "SOAPAction": '"getConfigurationAndPricing"',
-        },
-        body: configEnvelope,
-      });
-
-      const text = await response.text();
+      const response = await postSoap(trace, supplier, endpoint, 'getConfigurationAndPricing', configEnvelope, 'GetConfigurationAndPricing');
+      const text = response.body;
       results.response = {
         status: response.status,
         statusText: response.statusText,
         contentLength: text.length,
-        rawXml: text,
+        rawXml: includePayloads ? redact(text) : undefined,
       };
 
       // Extract all tag names
@@ -130,11 +114,12 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json(results);
+    return NextResponse.json({ ...results, debugLogs: trace.logs });
   } catch (error) {
     return NextResponse.json({
       ...results,
       error: error instanceof Error ? error.message : String(error),
+      debugLogs: trace.logs,
     }, { status: 500 });
   }
 }
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMockSoapRequest, MOCK_SERVICES } from '@/lib/mock-supplier';
+
+// Mock PromoStandards endpoints, e.g. POST /api/mock-supplier/ppc.
+// Off unless MOCK_SUPPLIER_ENABLED=true so it never answers in production by accident.
+export async function POST(request: NextRequest, { params }: { params: { service: string } }) {
+  if (process.env.MOCK_SUPPLIER_ENABLED !== 'true') {
+    return NextResponse.json({ error: 'Mock supplier is disabled' }, { status: 404 });
+  }
+
+  const service = MOCK_SERVICES.find(s => s === params.service);
+  if (!service) {
+    return NextResponse.json(
+      { error: `Unknown mock service "${params.service}". Available: ${MOCK_SERVICES.join(', ')}` },
+      { status: 404 }
+    );
+  }
+
+  const { status, body } = handleMockSoapRequest(service, await request.text());
+  return new NextResponse(body, {
+    status,
+    headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+  });
+}
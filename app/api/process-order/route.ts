@@ -1,23 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ConversationState, AvailableOptions, RequiredFields, PricingConfiguration, DebugLogEntry } from '@/types';
-import { getConfigurationAndPricing, getProductData, getDebugLogs, clearDebugLogs } from '@/lib/promostandards';
-import { parseUserRequest, parseUserResponse, buildLineItem } from '@/lib/ai-assistant';
+import { ConversationState, AvailableOptions, RequiredFields, PricingConfiguration, DebugLogEntry, InventoryLevels, OrderLineItem, Supplier, ProductData, ProductMedia, FobPoint, PricingOptions, ImprintSelection, Part } from '@/types';
+import {
+  getProductData,
+  getInventoryLevels,
+  getMediaContent,
+  getOrderStatusDetails,
+  getOrderShipmentNotification,
+} from '@/lib/promostandards';
+import { createRequestTrace, TraceContext } from '@/lib/debug-log';
+import { parseUserRequest, parseUserResponse, buildLineItem, getUnitPrice, getMinimumQuantity } from '@/lib/ai-assistant';
+import { resolveSupplier, findSupplierInText } from '@/lib/suppliers';
+import { loadProductPricing } from '@/lib/product-cache';
+import { toApiError, PromoStandardsError } from '@/lib/errors';
 
 export async function POST(request: NextRequest) {
-  // Clear debug logs at the start of each request
-  clearDebugLogs();
+  // Debug logs for this request only, tagged with its correlation id
+  const trace = createRequestTrace(request.headers);
 
   try {
     const body = await request.json();
     const { userInput, currentState, selectionUpdate } = body as {
       userInput: string;
       currentState: ConversationState | null;
-      selectionUpdate?: { field: string; value: string | number | null };
+      selectionUpdate?: { field: string; value: string | number | boolean | string[] | ImprintSelection[] | null };
     };
 
     // Handle direct selection updates from UI clicks
     if (selectionUpdate && currentState) {
-      return handleSelectionUpdate(currentState, selectionUpdate);
+      return await handleSelectionUpdate(trace, currentState, selectionUpdate);
     }
 
     // Check for reset/new order commands
@@ -32,7 +42,20 @@ export async function POST(request: NextRequest) {
         success: true,
         resetOrder: true,
         message: 'Starting a new order! What would you like to order?',
-        debugLogs: getDebugLogs(),
+        debugLogs: trace.logs,
+      });
+    }
+
+    // Check for order status questions ("where is PO 12345?") - these don't touch the current order
+    const statusPoNumber = matchOrderStatusQuery(userInput);
+    if (statusPoNumber) {
+      const supplier = resolveSupplier(findSupplierInText(userInput)?.id || currentState?.supplierId);
+      return NextResponse.json({
+        success: true,
+        orderStatusLookup: true,
+        state: currentState,
+        message: await lookupOrderStatus(trace, supplier, statusPoNumber),
+        debugLogs: trace.logs,
       });
     }
 
@@ -44,32 +67,46 @@ export async function POST(request: NextRequest) {
       if (qtyMatch) {
         const qty = parseInt(qtyMatch[1], 10);
         if (qty > 0) {
-          return handleSelectionUpdate(currentState, { field: 'quantity', value: qty });
+          return await handleSelectionUpdate(trace, currentState, { field: 'quantity', value: qty });
         }
       }
     }
 
     // Initial request - parse and fetch data
     if (!currentState) {
-      const parsedRequest = await parseUserRequest(userInput);
+      const parsedRequest = await parseUserRequest(trace, userInput);
 
       // Need productId to proceed
       if (!parsedRequest.productId) {
         return NextResponse.json({
           success: false,
-          error: 'Please specify a product ID (e.g., "order 500 of product 55900")',
-          debugLogs: getDebugLogs(),
+          error: {
+            code: 'MISSING_PRODUCT_ID',
+            message: 'Please specify a product ID (e.g., "order 500 of product 55900")',
+          },
+          debugLogs: trace.logs,
         });
       }
 
-      // Fetch pricing configuration
-      const pricingData = await getConfigurationAndPricing(parsedRequest.productId);
-      const productData = await getProductData(parsedRequest.productId);
+      const supplier = resolveSupplier(parsedRequest.supplierId);
+      parsedRequest.supplierId = supplier.id;
+
+      // Fetch pricing configuration (cached on disk between conversations)
+      const { pricingData, productData, asOf } = await loadProductPricing(
+        trace,
+        supplier,
+        parsedRequest.productId,
+        getPricingOptions(parsedRequest)
+      );
 
       // Match color to partId if color is specified
       if (parsedRequest.color && !parsedRequest.partId) {
+        const color = parsedRequest.color.toLowerCase();
         const matchingPart = pricingData.parts.find(p =>
-          p.partDescription.toLowerCase().includes(parsedRequest.color!.toLowerCase())
+          p.partDescription.toLowerCase().includes(color)
+        ) || pricingData.parts.find(p =>
+          productData.parts.find(dp => dp.partId === p.partId)?.colors
+            .some(c => c.colorName.toLowerCase().includes(color))
         );
         if (matchingPart) {
           parsedRequest.partId = matchingPart.partId;
@@ -105,22 +142,31 @@ export async function POST(request: NextRequest) {
       }
 
       const newState: ConversationState = {
+        supplierId: supplier.id,
         parsedRequest,
         selectedOptions: {
           ...parsedRequest,
           decorationMethod: matchedDecorationMethod || parsedRequest.decorationMethod,
           decorationLocation: matchedDecorationLocation || parsedRequest.decorationLocation,
+          additionalImprints: parsedRequest.additionalImprints?.map(imprint => matchImprint(imprint, pricingData)),
+          accessoryPartIds: matchAccessories(parsedRequest.accessories, pricingData),
         },
         questions: [],
         pricingData,
+        productData,
+        pricingAsOf: asOf,
+        media: await loadMedia(trace, supplier, parsedRequest.productId),
       };
 
       // Auto-select single options
       autoSelectSingleOptions(newState, pricingData);
 
+      // Check stock if the request already names a color and quantity
+      await refreshInventory(trace, newState, supplier);
+
       // Build available options for the UI
-      const availableOptions = buildAvailableOptions(pricingData, newState.selectedOptions);
-      const requiredFields = getRequiredFields(newState.selectedOptions);
+      const availableOptions = buildAvailableOptions(pricingData, newState.selectedOptions, newState.inventory, newState.media);
+      const requiredFields = getRequiredFields(newState.selectedOptions, pricingData);
 
       // Debug logging
       console.log('Pricing data parts:', pricingData.parts.length);
@@ -129,21 +175,24 @@ export async function POST(request: NextRequest) {
 
       // Check if we can build a line item (all required fields filled)
       if (allRequiredFieldsFilled(requiredFields)) {
+        await loadListPricing(trace, newState, supplier);
         const lineItem = buildLineItem(newState, productData.productName);
         if (lineItem) {
           newState.lineItem = lineItem;
           return NextResponse.json({
             success: true,
             state: newState,
-            message: `Great! Here's your order summary for ${productData.productName}:`,
+            message: `Great! Here's your order summary for ${productData.productName}:${getPriceBreakTip(lineItem)}`,
             availableOptions,
             requiredFields,
             productInfo: {
+              supplierId: supplier.id,
+              supplierName: supplier.name,
               productId: pricingData.productId,
               productName: productData.productName,
               quantity: parsedRequest.quantity || 0,
             },
-            debugLogs: getDebugLogs(),
+            debugLogs: trace.logs,
           });
         }
       }
@@ -157,15 +206,19 @@ export async function POST(request: NextRequest) {
         availableOptions,
         requiredFields,
         productInfo: {
+          supplierId: supplier.id,
+          supplierName: supplier.name,
           productId: pricingData.productId,
           productName: productData.productName,
           quantity: parsedRequest.quantity || 0,
         },
-        debugLogs: getDebugLogs(),
+        debugLogs: trace.logs,
       });
     }
 
     // Follow-up response - parse answer and update state
+    const supplier = resolveSupplier(currentState.supplierId);
+
     // Build available options context for the AI
     const optionsContext = currentState.pricingData ? {
       colors: currentState.pricingData.parts.map(p => ({ partId: p.partId, name: p.partDescription })),
@@ -174,7 +227,7 @@ export async function POST(request: NextRequest) {
       maxDecorationColors: getMaxDecorationColors(currentState.pricingData),
     } : undefined;
 
-    const extracted = await parseUserResponse(userInput, currentState, optionsContext);
+    const extracted = await parseUserResponse(trace, userInput, currentState, optionsContext);
     console.log('Extracted from follow-up:', extracted);
 
     // Try to match extracted values to actual options
@@ -236,11 +289,14 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Recheck stock for the color and quantity now selected
+    await refreshInventory(trace, currentState, supplier);
+
     // Build updated options and required fields
     const availableOptions = currentState.pricingData
-      ? buildAvailableOptions(currentState.pricingData, currentState.selectedOptions)
+      ? buildAvailableOptions(currentState.pricingData, currentState.selectedOptions, currentState.inventory, currentState.media)
       : undefined;
-    const requiredFields = getRequiredFields(currentState.selectedOptions);
+    const requiredFields = getRequiredFields(currentState.selectedOptions, currentState.pricingData);
 
     // Build feedback message about what was selected
     const selectionFeedback = newSelections.length > 0
@@ -249,7 +305,8 @@ export async function POST(request: NextRequest) {
 
     // If all required fields are filled, build line item
     if (allRequiredFieldsFilled(requiredFields) && currentState.pricingData) {
-      const productData = await getProductData(currentState.pricingData.productId);
+      const productData = await getStateProductData(trace, currentState, supplier);
+      await loadListPricing(trace, currentState, supplier);
       const lineItem = buildLineItem(currentState, productData.productName);
 
       if (lineItem) {
@@ -257,24 +314,30 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           state: currentState,
-          message: `${selectionFeedback}Here's your complete order:`,
+          message: `${selectionFeedback}Here's your complete order:${getStockWarning(lineItem)}${getPriceBreakTip(lineItem)}`,
           availableOptions,
           requiredFields,
           productInfo: {
+            supplierId: supplier.id,
+            supplierName: supplier.name,
             productId: currentState.pricingData.productId,
             productName: productData.productName,
             quantity: currentState.selectedOptions.quantity || currentState.parsedRequest.quantity || 0,
           },
-          debugLogs: getDebugLogs(),
+          debugLogs: trace.logs,
         });
       }
     }
 
+    // Nothing can be quoted for these selections (e.g. a quantity below the minimum) -
+    // drop the earlier quote so it can't be submitted at its old quantity
+    delete currentState.lineItem;
+
     // Still need selections
     const missingFields = getMissingFieldsList(requiredFields);
-    const productData = currentState.pricingData
-      ? await getProductData(currentState.pricingData.productId)
-      : { productName: 'Unknown Product' };
+    const productName = currentState.pricingData
+      ? (await getStateProductData(trace, currentState, supplier)).productName
+      : 'Unknown Product';
 
     return NextResponse.json({
       success: true,
@@ -285,28 +348,32 @@ export async function POST(request: NextRequest) {
       availableOptions,
       requiredFields,
       productInfo: currentState.pricingData ? {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
         productId: currentState.pricingData.productId,
-        productName: productData.productName,
+        productName: productName,
         quantity: currentState.selectedOptions.quantity || currentState.parsedRequest.quantity || 0,
       } : undefined,
-      debugLogs: getDebugLogs(),
+      debugLogs: trace.logs,
     });
 
   } catch (error) {
     console.error('Order processing error:', error);
     return NextResponse.json({
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      debugLogs: getDebugLogs(),
+      error: toApiError(error),
+      debugLogs: trace.logs,
     });
   }
 }
 
 async function handleSelectionUpdate(
+  trace: TraceContext,
   currentState: ConversationState,
-  selectionUpdate: { field: string; value: string | number | null }
+  selectionUpdate: { field: string; value: string | number | boolean | string[] | ImprintSelection[] | null }
 ) {
   const { field, value } = selectionUpdate;
+  const supplier = resolveSupplier(currentState.supplierId);
 
   // Get display value for the selection
   const selectionDisplay = value !== null
@@ -330,18 +397,30 @@ async function handleSelectionUpdate(
     }
   }
 
+  // Prices differ by ship-from point, currency and price type - re-quote for the new choice
+  const pricingField = PRICING_FIELDS.find(f => f === field);
+  if (pricingField && value && currentState.pricingData && value !== currentState.pricingData[pricingField]) {
+    await reloadPricing(trace, currentState, supplier);
+  }
+
+  // Check stock once both a color and quantity are chosen
+  if (field === 'partId' || field === 'quantity') {
+    await refreshInventory(trace, currentState, supplier);
+  }
+
   // Build updated options and required fields
   const availableOptions = currentState.pricingData
-    ? buildAvailableOptions(currentState.pricingData, currentState.selectedOptions)
+    ? buildAvailableOptions(currentState.pricingData, currentState.selectedOptions, currentState.inventory, currentState.media)
     : undefined;
-  const requiredFields = getRequiredFields(currentState.selectedOptions);
+  const requiredFields = getRequiredFields(currentState.selectedOptions, currentState.pricingData);
 
   // Build selection feedback
   const selectionFeedback = selectionDisplay ? `Selected ${selectionDisplay}. ` : '';
 
   // If all required fields are filled, build line item
   if (allRequiredFieldsFilled(requiredFields) && currentState.pricingData) {
-    const productData = await getProductData(currentState.pricingData.productId);
+    const productData = await getStateProductData(trace, currentState, supplier);
+    await loadListPricing(trace, currentState, supplier);
     const lineItem = buildLineItem(currentState, productData.productName);
 
     if (lineItem) {
@@ -349,23 +428,30 @@ async function handleSelectionUpdate(
       return NextResponse.json({
         success: true,
         state: currentState,
-        message: `${selectionFeedback}Order complete!`,
+        message: `${selectionFeedback}Order complete!${getStockWarning(lineItem)}${getPriceBreakTip(lineItem)}`,
         availableOptions,
         requiredFields,
         productInfo: {
+          supplierId: supplier.id,
+          supplierName: supplier.name,
           productId: currentState.pricingData.productId,
           productName: productData.productName,
           quantity: currentState.selectedOptions.quantity || currentState.parsedRequest.quantity || 0,
         },
+        debugLogs: trace.logs,
       });
     }
   }
 
+  // Nothing can be quoted for these selections (e.g. a quantity below the minimum) -
+  // drop the earlier quote so it can't be submitted at its old quantity
+  delete currentState.lineItem;
+
   // Still need more selections
   const missingFields = getMissingFieldsList(requiredFields);
-  const productData = currentState.pricingData
-    ? await getProductData(currentState.pricingData.productId)
-    : { productName: 'Unknown Product' };
+  const productName = currentState.pricingData
+    ? (await getStateProductData(trace, currentState, supplier)).productName
+    : 'Unknown Product';
 
   return NextResponse.json({
     success: true,
@@ -376,19 +462,227 @@ async function handleSelectionUpdate(
     availableOptions,
     requiredFields,
     productInfo: currentState.pricingData ? {
+      supplierId: supplier.id,
+      supplierName: supplier.name,
       productId: currentState.pricingData.productId,
-      productName: productData.productName,
+      productName: productName,
       quantity: currentState.selectedOptions.quantity || currentState.parsedRequest.quantity || 0,
     } : undefined,
+    debugLogs: trace.logs,
   });
 }
 
-function buildAvailableOptions(pricingData: PricingConfiguration, selectedOptions: Record<string, any>): AvailableOptions {
-  // Filter parts to only show main product colors (partGroup 1 or no partGroup)
-  // partGroup 2+ are typically accessories like lids
-  const mainParts = pricingData.parts.filter(p =>
-    p.partGroup === undefined || p.partGroup === 1
+const ORDER_STATUS_PATTERNS = [
+  /\bwhere(?:'s|\s+is)\s+(?:my\s+|our\s+)?(?:po|order|purchase\s+order)\s*(?:number|#|no\.?)?\s*#?([A-Z0-9-]+)/i,
+  /\b(?:status|tracking)\s+(?:of|for|on)\s+(?:po|order|purchase\s+order)\s*(?:number|#|no\.?)?\s*#?([A-Z0-9-]+)/i,
+  /\b(?:track|check)\s+(?:po|order|purchase\s+order)\s*(?:number|#|no\.?)?\s*#?([A-Z0-9-]+)/i,
+  /\b(?:po|order)\s*(?:number|#|no\.?)?\s*#?([A-Z0-9-]+)\s+status\b/i,
+];
+
+// Return the PO number if the input is an order status question
+function matchOrderStatusQuery(userInput: string): string | null {
+  for (const pattern of ORDER_STATUS_PATTERNS) {
+    const match = userInput.match(pattern);
+    // PO numbers always contain a digit - skips "where is my order going"
+    if (match && /\d/.test(match[1])) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+function formatDate(value?: string): string | undefined {
+  return value ? value.substring(0, 10) : undefined;
+}
+
+// Build the chat reply for an order status question from Order Status and Shipment Notification
+async function lookupOrderStatus(trace: TraceContext, supplier: Supplier, poNumber: string): Promise<string> {
+  const [statusResult, shipmentResult] = await Promise.allSettled([
+    getOrderStatusDetails(trace, supplier, poNumber),
+    getOrderShipmentNotification(trace, supplier, poNumber),
+  ]);
+
+  // "Not found" just means no data; anything else (auth, outage) is reported as an error
+  for (const result of [statusResult, shipmentResult]) {
+    if (result.status === 'rejected') {
+      const error = result.reason;
+      const notFound = error instanceof PromoStandardsError && error.code === 'PRODUCT_NOT_FOUND';
+      const notConfigured = error instanceof PromoStandardsError && error.code === 'SERVICE_NOT_CONFIGURED';
+      if (!notFound && !(notConfigured && result === shipmentResult)) {
+        throw error;
+      }
+    }
+  }
+
+  const statuses = statusResult.status === 'fulfilled' ? statusResult.value : [];
+  const shipments = shipmentResult.status === 'fulfilled' ? shipmentResult.value : [];
+
+  if (statuses.length === 0 && shipments.length === 0) {
+    return `I couldn't find PO ${poNumber} with ${supplier.name}. Check the PO number and supplier.`;
+  }
+
+  const lines: string[] = [`PO ${poNumber} (${supplier.name}):`];
+
+  for (const detail of statuses.flatMap(s => s.details)) {
+    let line = `• Status: ${detail.statusName}`;
+    if (detail.salesOrderNumber) line += ` (SO ${detail.salesOrderNumber})`;
+    if (detail.expectedShipDate) line += ` - expected to ship ${formatDate(detail.expectedShipDate)}`;
+    if (detail.expectedDeliveryDate) line += `, deliver by ${formatDate(detail.expectedDeliveryDate)}`;
+    if (detail.additionalExplanation) line += `\n  ${detail.additionalExplanation}`;
+    lines.push(line);
+  }
+
+  for (const shipment of shipments) {
+    if (shipment.packages.length === 0) {
+      lines.push(`• SO ${shipment.salesOrderNumber || '-'}: no packages shipped yet`);
+      continue;
+    }
+    for (const pkg of shipment.packages) {
+      let line = `• Shipped${pkg.carrier ? ` via ${pkg.carrier}` : ''}${pkg.shipmentMethod ? ` ${pkg.shipmentMethod}` : ''}`;
+      if (pkg.trackingNumber) line += ` - tracking ${pkg.trackingNumber}`;
+      if (pkg.shipmentDate) line += ` (shipped ${formatDate(pkg.shipmentDate)})`;
+      lines.push(line);
+    }
+  }
+
+  if (shipments.length > 0 && shipments.every(s => s.complete)) {
+    lines.push('All shipments for this PO are complete.');
+  }
+
+  return lines.join('\n');
+}
+
+// Product data is fetched once with the pricing and kept in the conversation state.
+// Older states without it are backfilled on first use.
+async function getStateProductData(trace: TraceContext, state: ConversationState, supplier: Supplier): Promise<ProductData> {
+  if (!state.productData) {
+    state.productData = await getProductData(trace, supplier, state.pricingData!.productId);
+  }
+  return state.productData;
+}
+
+const CURRENCIES = ['USD', 'CAD'];
+const PRICE_TYPES = ['Net', 'List', 'Customer'];
+
+// Selections that change the supplier's quote (each matches a PricingConfiguration field)
+const PRICING_FIELDS = ['fobId', 'currency', 'priceType'] as const;
+
+// Supplier pricing request for the conversation's choices
+function getPricingOptions(selectedOptions: Record<string, any>): PricingOptions {
+  return {
+    fobId: selectedOptions.fobId,
+    currency: selectedOptions.currency,
+    priceType: selectedOptions.priceType,
+    configurationType: selectedOptions.blank ? 'Blank' : undefined,
+  };
+}
+
+// Re-fetch pricing for the options chosen in the conversation (e.g. a different FOB point)
+async function reloadPricing(trace: TraceContext, state: ConversationState, supplier: Supplier): Promise<void> {
+  const { pricingData, asOf } = await loadProductPricing(
+    trace,
+    supplier,
+    state.pricingData!.productId,
+    getPricingOptions(state.selectedOptions)
   );
+  state.pricingData = pricingData;
+  state.pricingAsOf = asOf;
+}
+
+// List prices shown next to our cost. Fetched (or read from the cache) only once a
+// line item is built, and optional - not every supplier quotes List pricing.
+async function loadListPricing(trace: TraceContext, state: ConversationState, supplier: Supplier): Promise<void> {
+  const { pricingData, listPricingData } = state;
+  if (!pricingData || pricingData.priceType === 'List') return;
+  const pricingKey = [pricingData.fobId, pricingData.currency, pricingData.configurationType].join('|');
+  if (state.listPricingUnavailable === pricingKey) return;
+  if (
+    listPricingData?.fobId === pricingData.fobId &&
+    listPricingData.currency === pricingData.currency &&
+    listPricingData.configurationType === pricingData.configurationType
+  ) {
+    return;
+  }
+
+  try {
+    const { pricingData: listPricing } = await loadProductPricing(trace, supplier, pricingData.productId, {
+      ...getPricingOptions(state.selectedOptions),
+      fobId: pricingData.fobId,
+      priceType: 'List',
+    });
+    state.listPricingData = listPricing;
+    state.listPricingUnavailable = undefined;
+  } catch (error) {
+    // Remember the failure so later selections for the same pricing don't wait on it again
+    console.log('List pricing skipped:', error instanceof Error ? error.message : error);
+    state.listPricingData = undefined;
+    state.listPricingUnavailable = pricingKey;
+  }
+}
+
+// Product and color images are optional - without the Media Content service the
+// options panel just falls back to text-only color buttons.
+async function loadMedia(trace: TraceContext, supplier: Supplier, productId: string): Promise<ProductMedia | undefined> {
+  try {
+    return await getMediaContent(trace, supplier, productId);
+  } catch (error) {
+    console.log('Media content skipped:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+// Check stock when a color and quantity are both selected. Inventory is optional -
+// a supplier without the service, or an outage, shouldn't block the quote.
+async function refreshInventory(trace: TraceContext, state: ConversationState, supplier: Supplier): Promise<void> {
+  const { partId, quantity } = state.selectedOptions;
+  if (!state.pricingData || !partId || !quantity) return;
+
+  try {
+    state.inventory = await getInventoryLevels(trace, supplier, state.pricingData.productId);
+  } catch (error) {
+    console.log('Inventory check skipped:', error instanceof Error ? error.message : error);
+  }
+}
+
+function getStockWarning(lineItem: OrderLineItem): string {
+  if (!lineItem.stock?.insufficient) return '';
+  return ` Note: only ${lineItem.stock.quantityAvailable.toLocaleString()} in stock for ${lineItem.quantity.toLocaleString()} ordered.`;
+}
+
+// e.g. "ordering 500 instead of 450 lowers your total by $12.50"
+function getPriceBreakTip(lineItem: OrderLineItem): string {
+  const next = lineItem.nextPriceBreak;
+  if (!next) return '';
+  const money = (amount: number, digits = 2) => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: lineItem.currency || 'USD',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+  const nextQuantity = next.quantity.toLocaleString();
+  const quantity = lineItem.quantity.toLocaleString();
+
+  return next.difference < 0
+    ? ` Tip: ordering ${nextQuantity} instead of ${quantity} lowers your total by ${money(-next.difference)}.`
+    : ` Tip: ${nextQuantity} pieces cost only ${money(next.difference)} more than ${quantity} (${money(next.unitPrice, 4)} each instead of ${money(lineItem.unitPrice, 4)}).`;
+}
+
+function buildAvailableOptions(
+  pricingData: PricingConfiguration,
+  selectedOptions: Record<string, any>,
+  inventory?: InventoryLevels,
+  media?: ProductMedia
+): AvailableOptions {
+  // Only main product colors are colors; partGroup 2+ are accessories like lids
+  const mainParts = pricingData.parts.filter(p => !isAccessory(p));
+
+  // Accessories are offered per group, priced at the pieces they'd be ordered in
+  const accessoryGroups = new Map<number, Part[]>();
+  for (const part of pricingData.parts.filter(isAccessory)) {
+    accessoryGroups.set(part.partGroup!, [...(accessoryGroups.get(part.partGroup!) || []), part]);
+  }
+  const accessoryPartIds: string[] = selectedOptions.accessoryPartIds || [];
+  const quantity = selectedOptions.quantity || 1;
 
   // Get unique decoration methods across all locations
   // Filter out charge-like names (e.g., "CB DRINKWARE SMALL", "CB DRINKWARE LARGE")
@@ -436,6 +730,8 @@ function buildAvailableOptions(pricingData: PricingConfiguration, selectedOption
       partId: p.partId,
       name: p.partDescription,
       selected: selectedOptions.partId === p.partId,
+      stock: inventory?.parts.find(i => i.partId === p.partId)?.quantityAvailable,
+      imageUrl: media?.partImages[p.partId],
     })),
     decorationMethods: Array.from(decorationMethodsMap.entries()).map(([name, data]) => ({
       id: data.id,
@@ -452,27 +748,69 @@ function buildAvailableOptions(pricingData: PricingConfiguration, selectedOption
       max: maxColors,
       selected: selectedOptions.decorationColors ?? null,
     },
+    fobPoints: pricingData.fobPoints.map(f => ({
+      id: f.fobId,
+      name: formatFobPoint(f),
+      selected: pricingData.fobId === f.fobId,
+    })),
+    currencies: CURRENCIES.map(c => ({ id: c, name: c, selected: pricingData.currency === c })),
+    priceTypes: PRICE_TYPES.map(t => ({ id: t, name: t, selected: pricingData.priceType === t })),
+    accessoryGroups: Array.from(accessoryGroups.entries()).map(([partGroup, parts]) => ({
+      partGroup,
+      name: parts.find(p => p.partGroupDescription)?.partGroupDescription || 'Accessories',
+      parts: parts.map(p => ({
+        partId: p.partId,
+        name: p.partDescription || p.partId,
+        unitPrice: getUnitPrice(p, Math.ceil(quantity * (p.ratio ?? 1))),
+        selected: accessoryPartIds.includes(p.partId),
+      })),
+    })),
+    orderTypes: [
+      { id: 'new', name: 'New', selected: !selectedOptions.repeat },
+      { id: 'repeat', name: selectedOptions.repeatPoNumber ? `Repeat of PO ${selectedOptions.repeatPoNumber}` : 'Repeat', selected: Boolean(selectedOptions.repeat) },
+    ],
   };
 }
 
-function getRequiredFields(selectedOptions: Record<string, any>): RequiredFields {
+// e.g. "Chicago, IL 60601, US"; suppliers that send only an id get "FOB 1"
+function formatFobPoint(fob: FobPoint): string {
+  const cityState = [fob.city, [fob.state, fob.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+  const place = [cityState, fob.country].filter(Boolean).join(', ');
+  return place || `FOB ${fob.fobId}`;
+}
+
+function getRequiredFields(selectedOptions: Record<string, any>, pricingData?: PricingConfiguration): RequiredFields {
+  // Blank goods need no decoration choices
+  const decorated = !selectedOptions.blank;
+  // A quantity below the minimum order can't be priced, so it still has to be chosen
+  const minimumQuantity = pricingData ? getMinimumOrderQuantity(pricingData, selectedOptions.partId) : undefined;
+  const belowMinimum = Boolean(selectedOptions.quantity && minimumQuantity && selectedOptions.quantity < minimumQuantity);
   return {
-    quantity: !selectedOptions.quantity,
+    quantity: !selectedOptions.quantity || belowMinimum,
+    minimumQuantity: belowMinimum ? minimumQuantity : undefined,
     color: !selectedOptions.partId,
-    decorationMethod: !selectedOptions.decorationMethod,
-    decorationLocation: !selectedOptions.decorationLocation,
+    decorationMethod: decorated && !selectedOptions.decorationMethod,
+    decorationLocation: decorated && !selectedOptions.decorationLocation,
     // 0 is a valid value for decorationColors (laser engraving)
-    decorationColors: selectedOptions.decorationColors === undefined || selectedOptions.decorationColors === null,
+    decorationColors: decorated && (selectedOptions.decorationColors === undefined || selectedOptions.decorationColors === null),
+    additionalImprints: decorated && (selectedOptions.additionalImprints || []).some(
+      (imprint: ImprintSelection) => !imprint.decorationMethod || !imprint.decorationLocation
+    ),
   };
 }
 
 function getMissingFieldsList(requiredFields: RequiredFields): string[] {
   const missing: string[] = [];
-  if (requiredFields.quantity) missing.push('quantity');
+  if (requiredFields.quantity) {
+    missing.push(requiredFields.minimumQuantity
+      ? `a quantity of at least ${requiredFields.minimumQuantity.toLocaleString()} (the minimum order)`
+      : 'quantity');
+  }
   if (requiredFields.color) missing.push('color');
   if (requiredFields.decorationMethod) missing.push('decoration method');
   if (requiredFields.decorationLocation) missing.push('decoration location');
   if (requiredFields.decorationColors) missing.push('imprint colors');
+  if (requiredFields.additionalImprints) missing.push('method and location for each added imprint');
   return missing;
 }
 
@@ -481,7 +819,8 @@ function allRequiredFieldsFilled(requiredFields: RequiredFields): boolean {
          !requiredFields.color &&
          !requiredFields.decorationMethod &&
          !requiredFields.decorationLocation &&
-         !requiredFields.decorationColors;
+         !requiredFields.decorationColors &&
+         !requiredFields.additionalImprints;
 }
 
 // Get human-readable display value for a selection
@@ -509,15 +848,93 @@ function getDisplayValueForSelection(
       return `Location: ${value}`;
     case 'decorationColors':
       return value === 0 ? 'Imprint: None (laser)' : `Imprint Colors: ${value}`;
+    case 'currency':
+      return `Currency: ${value}`;
+    case 'priceType':
+      return `Price type: ${value}`;
+    case 'additionalImprints': {
+      const imprints = value as ImprintSelection[];
+      return imprints.length > 0
+        ? `Additional imprints: ${imprints.map(describeImprint).join(', ')}`
+        : 'Single imprint';
+    }
+    case 'accessoryPartIds': {
+      const names = (value as string[]).map(id =>
+        pricingData?.parts.find(p => p.partId === id)?.partDescription || id
+      );
+      return names.length > 0 ? `Add-ons: ${names.join(', ')}` : 'No add-ons';
+    }
+    case 'repeat':
+      return value ? 'Repeat order (repeat setup pricing)' : 'New order';
+    case 'blank':
+      return value ? 'Blank (no imprint)' : 'Decorated';
+    case 'fobId': {
+      const fob = pricingData?.fobPoints.find(f => f.fobId === value);
+      return `Ship from: ${fob ? formatFobPoint(fob) : value}`;
+    }
     default:
       return null;
   }
 }
 
+// e.g. "Silk Screen @ Back (2 colors)"; an imprint just added has neither yet
+function describeImprint(imprint: ImprintSelection): string {
+  const where = [imprint.decorationMethod, imprint.decorationLocation].filter(Boolean).join(' @ ');
+  return `${where || 'new imprint'}${imprint.decorationColors ? ` (${imprint.decorationColors} color${imprint.decorationColors > 1 ? 's' : ''})` : ''}`;
+}
+
+// Map a parsed imprint's method and location onto the supplier's names, where they match
+function matchImprint(imprint: ImprintSelection, pricingData: PricingConfiguration): ImprintSelection {
+  const location = imprint.decorationLocation
+    ? pricingData.locations.find(l => l.locationName.toLowerCase().includes(imprint.decorationLocation!.toLowerCase()))
+    : undefined;
+  const decoration = imprint.decorationMethod
+    ? (location ? [location] : pricingData.locations)
+        .flatMap(l => l.decorations)
+        .find(d => d.decorationName.toLowerCase().includes(imprint.decorationMethod!.toLowerCase()))
+    : undefined;
+  return {
+    ...imprint,
+    decorationMethod: decoration?.decorationName || imprint.decorationMethod,
+    decorationLocation: location?.locationName || imprint.decorationLocation,
+  };
+}
+
+// Minimum order for the chosen color, or the lowest of any color before one is chosen
+function getMinimumOrderQuantity(pricingData: PricingConfiguration, partId?: string): number | undefined {
+  const minimums = pricingData.parts
+    .filter(p => partId ? p.partId === partId : !isAccessory(p))
+    .map(getMinimumQuantity)
+    .filter((minimum): minimum is number => minimum !== undefined);
+  return minimums.length > 0 ? Math.min(...minimums) : undefined;
+}
+
+function isAccessory(part: Part): boolean {
+  return (part.partGroup ?? 1) > 1;
+}
+
+// Accessory parts for add-ons named in the request - "black lid" matches a part whose
+// description has every word, e.g. "Slider Lid - Black"
+function matchAccessories(phrases: string[] | undefined, pricingData: PricingConfiguration): string[] | undefined {
+  if (!phrases?.length) return undefined;
+
+  const matched: Part[] = [];
+  for (const phrase of phrases) {
+    const words = phrase.toLowerCase().split(/\s+/).filter(Boolean).map(w => w.replace(/s$/, ''));
+    const part = pricingData.parts.find(p =>
+      isAccessory(p) &&
+      !matched.some(m => m.partGroup === p.partGroup) && // One part per group
+      words.every(word => p.partDescription.toLowerCase().includes(word))
+    );
+    if (part) matched.push(part);
+  }
+  return matched.length > 0 ? matched.map(p => p.partId) : undefined;
+}
+
 // Auto-select options when only one choice is available
 function autoSelectSingleOptions(state: ConversationState, pricingData: PricingConfiguration): void {
-  // Filter out parts without descriptions (like accessories)
-  const mainParts = pricingData.parts.filter(p => p.partDescription && p.partDescription.trim() !== '');
+  // Filter out accessories and parts without descriptions
+  const mainParts = pricingData.parts.filter(p => !isAccessory(p) && p.partDescription && p.partDescription.trim() !== '');
 
   // Auto-select color if only one main color option
   if (!state.selectedOptions.partId && mainParts.length === 1) {
@@ -525,6 +942,9 @@ function autoSelectSingleOptions(state: ConversationState, pricingData: PricingC
     console.log('Auto-selected single color:', mainParts[0].partDescription);
   }
 
+  // Blank goods have nothing else to choose
+  if (state.selectedOptions.blank) return;
+
   // Get unique decoration methods
   const methods = getUniqueDecorationMethods(pricingData);
 
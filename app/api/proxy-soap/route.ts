@@ -2,12 +2,75 @@
 // Vercel-compatible SOAP proxy (replaces Netlify function)
 
 import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { isRegisteredEndpoint } from '@/lib/suppliers';
+import { redact } from '@/lib/debug-log';
 
-export const maxDuration = 30; // Allow up to 30 seconds for slow SOAP endpoints
+export const maxDuration = 60; // Allow up to 60 seconds for slow SOAP endpoints (sendPO waits 45s)
+
+const DEFAULT_TIMEOUT_MS = 25000;
+const MAX_TIMEOUT_MS = 55000;
+
+const MAX_REQUEST_BYTES = 256 * 1024; // SOAP requests are a few KB; a PO with many lines stays well under this
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024; // Large PPC responses run to a few MB
+
+const SOAP_ACTION = /^[\w.:/-]{1,200}$/;
+
+function reject(request: NextRequest, status: number, reason: string, endpoint?: unknown): NextResponse {
+  console.warn('SOAP proxy rejected request:', {
+    reason,
+    endpoint: typeof endpoint === 'string' ? endpoint.substring(0, 200) : undefined,
+    client: request.headers.get('x-forwarded-for') || request.ip || 'unknown',
+  });
+  return NextResponse.json({ error: reason, status, responseText: '' }, { status });
+}
+
+// Callers authenticate with "Authorization: Bearer <SOAP_PROXY_TOKEN>"
+function isAuthorized(request: NextRequest, token: string): boolean {
+  const header = request.headers.get('authorization') || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Read a caller's or supplier's body, giving up once it passes the size cap -
+// Content-Length is only a shortcut, a chunked body is counted as it streams
+async function readLimited(message: Request | Response, maxBytes: number): Promise<string | null> {
+  if (Number(message.headers.get('content-length')) > maxBytes) return null;
+  if (!message.body) return '';
+
+  const reader = message.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
 
 export async function POST(request: NextRequest) {
+  // Fail closed: without a configured token nobody may use the proxy
+  const token = process.env.SOAP_PROXY_TOKEN;
+  if (!token) {
+    return reject(request, 503, 'SOAP proxy is not configured (SOAP_PROXY_TOKEN is not set)');
+  }
+  if (!isAuthorized(request, token)) {
+    return reject(request, 401, 'Unauthorized');
+  }
+
   try {
-    const { endpoint, soapAction, xmlBody } = await request.json();
+    const rawBody = await readLimited(request, MAX_REQUEST_BYTES);
+    if (rawBody === null) {
+      return reject(request, 413, `Request exceeds ${MAX_REQUEST_BYTES} bytes`);
+    }
+    const { endpoint, soapAction, xmlBody, timeoutMs } = JSON.parse(rawBody);
 
     if (!endpoint || !soapAction || !xmlBody) {
       return NextResponse.json(
@@ -15,15 +78,26 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (typeof endpoint !== 'string' || !isRegisteredEndpoint(endpoint)) {
+      return reject(request, 403, 'Endpoint is not a registered supplier endpoint', endpoint);
+    }
+    if (typeof soapAction !== 'string' || !SOAP_ACTION.test(soapAction) || typeof xmlBody !== 'string') {
+      return reject(request, 400, 'Invalid soapAction or xmlBody', endpoint);
+    }
 
     console.log('SOAP Proxy Request:', {
       endpoint,
       soapAction,
-      bodyPreview: xmlBody.substring(0, 200),
+      bodyPreview: redact(xmlBody.substring(0, 200)),
     });
 
+    // Callers pass their per-operation timeout; stay inside maxDuration
+    const timeout = typeof timeoutMs === 'number' && timeoutMs > 0
+      ? Math.min(timeoutMs, MAX_TIMEOUT_MS)
+      : DEFAULT_TIMEOUT_MS;
+
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 25000); // 25 second timeout
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
 
     try {
       const response = await fetch(endpoint, {
@@ -34,25 +108,31 @@ export async function POST(request: NextRequest) {
         },
         body: xmlBody,
         signal: controller.signal,
+        redirect: 'manual', // A redirect could point anywhere - the allowlist only covers the endpoint itself
       });
 
+      const responseText = await readLimited(response, MAX_RESPONSE_BYTES);
       clearTimeout(timeoutId);
-      const responseText = await response.text();
+
+      if (responseText === null) {
+        return reject(request, 502, `Supplier response exceeds ${MAX_RESPONSE_BYTES} bytes`, endpoint);
+      }
 
       console.log('SOAP Response:', {
         status: response.status,
-        preview: responseText.substring(0, 300),
+        preview: redact(responseText.substring(0, 300)),
       });
 
       return NextResponse.json({
         status: response.status,
+        statusText: response.statusText,
         responseText,
         error: null,
       });
 
     } catch (fetchError) {
       clearTimeout(timeoutId);
-      
+
       if (fetchError instanceof Error && fetchError.name === 'AbortError') {
         return NextResponse.json({
           status: 408,
@@ -72,7 +152,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Proxy error:', error);
     return NextResponse.json(
-      { 
+      {
         error: error instanceof Error ? error.message : 'Invalid request',
         status: 400,
         responseText: '',
@@ -89,7 +169,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRequestTrace } from '@/lib/debug-log';
+import { resolveSupplier } from '@/lib/suppliers';
+import { invalidateProduct, loadProductPricing } from '@/lib/product-cache';
+import { toApiError } from '@/lib/errors';
+
+// Force a fresh pricing/product fetch for one product, replacing its cache entries
+export async function POST(request: NextRequest) {
+  const trace = createRequestTrace(request.headers);
+
+  try {
+    const body = await request.json();
+    const { supplierId, productId } = body as { supplierId?: string; productId?: string };
+
+    if (!productId?.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: { code: 'MISSING_PRODUCT_ID', message: 'productId is required' },
+      }, { status: 400 });
+    }
+
+    const supplier = resolveSupplier(supplierId);
+    const removed = invalidateProduct(supplier.id, productId);
+    const { pricingData, asOf } = await loadProductPricing(trace, supplier, productId, {}, true);
+
+    return NextResponse.json({
+      success: true,
+      supplierId: supplier.id,
+      productId,
+      removedEntries: removed,
+      pricingAsOf: asOf,
+      partCount: pricingData.parts.length,
+      message: `Refreshed pricing for ${supplier.name} product ${productId}.`,
+      debugLogs: trace.logs,
+    });
+  } catch (error) {
+    console.error('Product refresh error:', error);
+    return NextResponse.json({
+      success: false,
+      error: toApiError(error),
+      debugLogs: trace.logs,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConversationState, PurchaseOrderDetails } from '@/types';
+import { sendPurchaseOrder } from '@/lib/promostandards';
+import { createRequestTrace } from '@/lib/debug-log';
+import { resolveSupplier } from '@/lib/suppliers';
+import { toApiError } from '@/lib/errors';
+
+const REQUIRED_SHIP_TO_FIELDS = ['companyName', 'address1', 'city', 'region', 'postalCode', 'country'] as const;
+
+export async function POST(request: NextRequest) {
+  const trace = createRequestTrace(request.headers);
+
+  try {
+    const body = await request.json();
+    const { currentState, details, dryRun } = body as {
+      currentState: ConversationState | null;
+      details: PurchaseOrderDetails;
+      dryRun?: boolean;
+    };
+
+    if (!currentState?.lineItem || !currentState.pricingData) {
+      return NextResponse.json({
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: 'Complete the line item before submitting a PO.' },
+      }, { status: 400 });
+    }
+
+    const missing = [
+      ...(details?.poNumber?.trim() ? [] : ['PO number']),
+      ...REQUIRED_SHIP_TO_FIELDS.filter(f => !details?.shipTo?.[f]?.trim()),
+    ];
+    if (missing.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: `Missing PO fields: ${missing.join(', ')}` },
+      }, { status: 400 });
+    }
+
+    const supplier = resolveSupplier(currentState.supplierId);
+    const purchaseOrder = await sendPurchaseOrder(
+      trace,
+      supplier,
+      currentState.lineItem,
+      currentState.pricingData,
+      details,
+      Boolean(dryRun)
+    );
+
+    // Only real submissions are recorded on the order
+    const state: ConversationState = purchaseOrder.dryRun
+      ? currentState
+      : { ...currentState, purchaseOrder };
+
+    return NextResponse.json({
+      success: true,
+      state,
+      purchaseOrder,
+      message: purchaseOrder.dryRun
+        ? `Dry run: PO ${purchaseOrder.poNumber} was built but not sent to ${supplier.name}.`
+        : `PO ${purchaseOrder.poNumber} submitted to ${supplier.name}. Transaction ID: ${purchaseOrder.transactionId}`,
+      debugLogs: trace.logs,
+    });
+  } catch (error) {
+    console.error('PO submission error:', error);
+    return NextResponse.json({
+      success: false,
+      error: toApiError(error),
+      debugLogs: trace.logs,
+    });
+  }
+}
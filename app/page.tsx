@@ -1,15 +1,28 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { ConversationState, OrderLineItem, AvailableOptions, RequiredFields, DebugLogEntry } from '@/types';
+import { ConversationState, OrderLineItem, AvailableOptions, RequiredFields, DebugLogEntry, ApiError, ShipToAddress, ImprintSelection } from '@/types';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   lineItem?: OrderLineItem;
+  xml?: string; // sendPO request from a dry run
 }
 
+const EMPTY_SHIP_TO: ShipToAddress = {
+  attentionTo: '',
+  companyName: '',
+  address1: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country: 'US',
+};
+
 interface ProductInfo {
+  supplierId: string;
+  supplierName: string;
   productId: string;
   productName: string;
   quantity: number;
@@ -32,6 +45,10 @@ export default function OrderEntryPage() {
   const [quantityInput, setQuantityInput] = useState<string>('');
   const [feedbackGiven, setFeedbackGiven] = useState<boolean>(false);
   const [lastUserInput, setLastUserInput] = useState<string>('');
+  const [showPoForm, setShowPoForm] = useState<boolean>(false);
+  const [poNumber, setPoNumber] = useState<string>('');
+  const [shipTo, setShipTo] = useState<ShipToAddress>(EMPTY_SHIP_TO);
+  const [poDryRun, setPoDryRun] = useState<boolean>(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const debugEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -103,6 +120,15 @@ export default function OrderEntryPage() {
               content: data.message,
             },
           ]);
+        } else if (data.orderStatusLookup) {
+          // Status answers leave the order in progress untouched
+          setMessages(prev => [
+            ...prev,
+            {
+              role: 'assistant',
+              content: data.message,
+            },
+          ]);
         } else {
           setConversationState(data.state);
           setAvailableOptions(data.availableOptions || null);
@@ -122,7 +148,7 @@ export default function OrderEntryPage() {
           ...prev,
           {
             role: 'assistant',
-            content: data.error || 'Something went wrong. Please try again.',
+            content: describeApiError(data.error),
           },
         ]);
       }
@@ -139,7 +165,7 @@ export default function OrderEntryPage() {
     }
   };
 
-  const handleOptionSelect = async (field: string, value: string | number) => {
+  const handleOptionSelect = async (field: string, value: string | number | boolean | string[] | ImprintSelection[]) => {
     if (!conversationState || loading) return;
 
     setLoading(true);
@@ -157,6 +183,12 @@ export default function OrderEntryPage() {
 
       const data = await response.json();
 
+      // Option clicks can re-price or check stock - keep their SOAP traces too
+      if (data.debugLogs) {
+        setDebugLogs(prev => [...prev, ...data.debugLogs]);
+        setTimeout(() => debugEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+      }
+
       if (data.success) {
         setConversationState(data.state);
         setAvailableOptions(data.availableOptions || null);
@@ -173,6 +205,14 @@ export default function OrderEntryPage() {
             },
           ]);
         }
+      } else {
+        setMessages(prev => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: describeApiError(data.error),
+          },
+        ]);
       }
     } catch (error) {
       console.error('Selection error:', error);
@@ -181,7 +221,68 @@ export default function OrderEntryPage() {
     }
   };
 
+  const handleSubmitPo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!conversationState || loading) return;
+
+    setLoading(true);
+
+    try {
+      const response = await fetch('/api/submit-po', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentState: conversationState,
+          details: { poNumber, shipTo },
+          dryRun: poDryRun,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.debugLogs) {
+        setDebugLogs(prev => [...prev, ...data.debugLogs]);
+      }
+
+      if (data.success) {
+        setConversationState(data.state);
+        if (!data.purchaseOrder.dryRun) {
+          setShowPoForm(false);
+        }
+        setMessages(prev => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: data.message,
+            xml: data.purchaseOrder.xml,
+          },
+        ]);
+      } else {
+        setMessages(prev => [
+          ...prev,
+          {
+            role: 'assistant',
+            content: describeApiError(data.error),
+          },
+        ]);
+      }
+    } catch (error) {
+      setMessages(prev => [
+        ...prev,
+        {
+          role: 'assistant',
+          content: 'Connection error. Please check your network and try again.',
+        },
+      ]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleReset = () => {
+    setShowPoForm(false);
+    setPoNumber('');
+    setShipTo(EMPTY_SHIP_TO);
     setConversationState(null);
     setAvailableOptions(null);
     setRequiredFields(null);
@@ -228,7 +329,15 @@ export default function OrderEntryPage() {
   };
 
   const showOptionsPanel = availableOptions && !conversationState?.lineItem;
+  const productData = conversationState?.productData;
+  const isBlank = Boolean(conversationState?.selectedOptions.blank);
+  const additionalImprints: ImprintSelection[] = conversationState?.selectedOptions.additionalImprints || [];
+  const accessoryPartIds: string[] = conversationState?.selectedOptions.accessoryPartIds || [];
+  const selectedPartInventory = conversationState?.inventory?.parts.find(
+    p => p.partId === conversationState.selectedOptions.partId
+  );
   const showFeedback = conversationState?.lineItem && !feedbackGiven;
+  const canSubmitPo = conversationState?.lineItem && !conversationState.purchaseOrder;
 
   return (
     <div style={styles.container}>
@@ -264,7 +373,12 @@ export default function OrderEntryPage() {
                 <div key={idx} style={styles.debugEntry}>
                   <div style={styles.debugEntryHeader}>
                     <span style={styles.debugOperation}>{log.operation}</span>
-                    <span style={styles.debugTimestamp}>{new Date(log.timestamp).toLocaleTimeString()}</span>
+                    <span style={styles.debugTimestamp}>
+                      {log.correlationId && <span title={log.correlationId}>{log.correlationId.slice(0, 8)} • </span>}
+                      {log.attempt !== undefined && `attempt ${log.attempt} • `}
+                      {log.durationMs !== undefined && `${log.durationMs}ms • `}
+                      {new Date(log.timestamp).toLocaleTimeString()}
+                    </span>
                   </div>
                   {log.error && (
                     <div style={styles.debugError}>Error: {log.error}</div>
@@ -311,6 +425,9 @@ export default function OrderEntryPage() {
                       <LineItemDisplay lineItem={msg.lineItem} />
                     </div>
                   )}
+                  {msg.xml && (
+                    <pre style={styles.poXml}>{msg.xml}</pre>
+                  )}
                 </div>
               </div>
             ))}
@@ -337,6 +454,63 @@ export default function OrderEntryPage() {
                 </div>
               </div>
             )}
+            {/* Purchase Order Section */}
+            {canSubmitPo && !showPoForm && (
+              <div style={styles.poActionRow}>
+                <button onClick={() => setShowPoForm(true)} style={styles.submitPoButton}>
+                  Submit PO
+                </button>
+              </div>
+            )}
+            {conversationState?.purchaseOrder && (
+              <div style={styles.poSubmittedNote}>
+                PO {conversationState.purchaseOrder.poNumber} submitted • Transaction ID: {conversationState.purchaseOrder.transactionId}
+              </div>
+            )}
+            {canSubmitPo && showPoForm && (
+              <form onSubmit={handleSubmitPo} style={styles.poForm}>
+                <div style={styles.poFormTitle}>Submit Purchase Order</div>
+                <input
+                  value={poNumber}
+                  onChange={(e) => setPoNumber(e.target.value)}
+                  placeholder="PO number"
+                  style={styles.poFormInput}
+                />
+                {([
+                  ['companyName', 'Company'],
+                  ['attentionTo', 'Attention'],
+                  ['address1', 'Address'],
+                  ['city', 'City'],
+                  ['region', 'State / Province'],
+                  ['postalCode', 'Postal code'],
+                  ['country', 'Country (e.g. US)'],
+                ] as Array<[keyof ShipToAddress, string]>).map(([field, label]) => (
+                  <input
+                    key={field}
+                    value={shipTo[field] || ''}
+                    onChange={(e) => setShipTo(prev => ({ ...prev, [field]: e.target.value }))}
+                    placeholder={label}
+                    style={styles.poFormInput}
+                  />
+                ))}
+                <label style={styles.poFormCheckbox}>
+                  <input
+                    type="checkbox"
+                    checked={poDryRun}
+                    onChange={(e) => setPoDryRun(e.target.checked)}
+                  />
+                  Dry run (show the XML without sending)
+                </label>
+                <div style={styles.feedbackButtons}>
+                  <button type="submit" disabled={loading} style={styles.submitPoButton}>
+                    {poDryRun ? 'Preview PO' : 'Send PO'}
+                  </button>
+                  <button type="button" onClick={() => setShowPoForm(false)} style={styles.feedbackButtonNo}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
             {loading && (
               <div style={{ ...styles.messageRow, justifyContent: 'flex-start' }}>
                 <div style={{ ...styles.messageBubble, ...styles.assistantMessage }}>
@@ -385,8 +559,27 @@ export default function OrderEntryPage() {
                 <div style={styles.productInfoBox}>
                   <div style={styles.productName}>{productInfo.productName}</div>
                   <div style={styles.productDetails}>
-                    Product #{productInfo.productId} • Qty: {productInfo.quantity}
+                    {productInfo.supplierName} • Product #{productInfo.productId} • Qty: {productInfo.quantity}
                   </div>
+                  {productData && (
+                    <div style={styles.productDetails}>
+                      {[
+                        productData.leadTime !== undefined && `Lead time: ${productData.leadTime} days`,
+                        productData.imprintSize && `Imprint: ${productData.imprintSize}`,
+                        productData.categories[0]?.category,
+                      ].filter(Boolean).join(' • ')}
+                    </div>
+                  )}
+                  {conversationState?.pricingAsOf && (
+                    <div style={styles.productDetails}>
+                      Pricing as of {formatAsOf(conversationState.pricingAsOf)}
+                    </div>
+                  )}
+                  {productData?.compliance.isCaution && (
+                    <div style={styles.productCaution}>
+                      ⚠ {productData.compliance.cautionComment || 'Caution: see supplier compliance info'}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -396,7 +589,9 @@ export default function OrderEntryPage() {
               <div style={styles.optionSection}>
                 <div style={styles.optionSectionHeader}>
                   <span style={styles.optionSectionTitle}>Quantity</span>
-                  {requiredFields?.quantity ? (
+                  {requiredFields?.minimumQuantity ? (
+                    <span style={styles.requiredBadge}>Minimum {requiredFields.minimumQuantity.toLocaleString()}</span>
+                  ) : requiredFields?.quantity ? (
                     <span style={styles.requiredBadge}>Required</span>
                   ) : (
                     <span style={styles.selectedBadge}>✓</span>
@@ -428,72 +623,189 @@ export default function OrderEntryPage() {
                 />
               </div>
 
-              {/* Colors Section */}
+              {/* Ship-from (FOB) Section - prices are quoted per point */}
+              {availableOptions.fobPoints.length > 1 && (
+                <OptionSection
+                  title="Ship From"
+                  options={availableOptions.fobPoints}
+                  onSelect={(opt) => handleOptionSelect('fobId', opt.id)}
+                  getLabel={(opt) => opt.name}
+                  getKey={(opt) => opt.id}
+                  isSelected={(opt) => opt.selected}
+                  disabled={loading}
+                />
+              )}
+
+              {/* Currency and price type - each combination is quoted separately */}
               <OptionSection
-                title="Color"
-                required={requiredFields?.color}
-                options={availableOptions.colors}
-                onSelect={(opt) => handleOptionSelect('partId', opt.partId)}
+                title="Currency"
+                options={availableOptions.currencies}
+                onSelect={(opt) => handleOptionSelect('currency', opt.id)}
                 getLabel={(opt) => opt.name}
-                getKey={(opt) => opt.partId}
+                getKey={(opt) => opt.id}
                 isSelected={(opt) => opt.selected}
                 disabled={loading}
               />
-
-              {/* Decoration Methods Section */}
               <OptionSection
-                title="Decoration Method"
-                required={requiredFields?.decorationMethod}
-                options={availableOptions.decorationMethods}
-                onSelect={(opt) => handleOptionSelect('decorationMethod', opt.name)}
+                title="Price Type"
+                options={availableOptions.priceTypes}
+                onSelect={(opt) => handleOptionSelect('priceType', opt.id)}
                 getLabel={(opt) => opt.name}
                 getKey={(opt) => opt.id}
                 isSelected={(opt) => opt.selected}
                 disabled={loading}
               />
 
-              {/* Decoration Locations Section */}
+              {/* Colors Section */}
               <OptionSection
-                title="Location"
-                required={requiredFields?.decorationLocation}
-                options={availableOptions.decorationLocations}
-                onSelect={(opt) => handleOptionSelect('decorationLocation', opt.name)}
+                title="Color"
+                required={requiredFields?.color}
+                options={availableOptions.colors}
+                onSelect={(opt) => handleOptionSelect('partId', opt.partId)}
                 getLabel={(opt) => opt.name}
-                getKey={(opt) => opt.id}
+                getKey={(opt) => opt.partId}
                 isSelected={(opt) => opt.selected}
+                getBadge={(opt) => <StockBadge stock={opt.stock} quantity={productInfo?.quantity || 0} />}
+                getImageUrl={(opt) => opt.imageUrl}
                 disabled={loading}
               />
 
-              {/* Decoration Colors Section */}
-              <div style={styles.optionSection}>
-                <div style={styles.optionSectionHeader}>
-                  <span style={styles.optionSectionTitle}>Imprint Colors</span>
-                  {requiredFields?.decorationColors && availableOptions.decorationColors.selected === null ? (
-                    <span style={styles.requiredBadge}>Required</span>
-                  ) : availableOptions.decorationColors.selected !== null ? (
+              {/* Stock by warehouse for the selected color */}
+              {selectedPartInventory && (
+                <div style={styles.stockPanel}>
+                  <div style={styles.stockPanelTitle}>
+                    Stock: {selectedPartInventory.quantityAvailable.toLocaleString()} available
+                  </div>
+                  {selectedPartInventory.locations.map(loc => (
+                    <div key={loc.locationId} style={styles.stockPanelRow}>
+                      <span>{loc.locationName}{loc.postalCode ? ` (${loc.postalCode})` : ''}</span>
+                      <span>{loc.quantityAvailable.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Accessory groups (lids, straws...) - optional, at most one part from each */}
+              {availableOptions.accessoryGroups.map(group => (
+                <OptionSection
+                  key={group.partGroup}
+                  title={group.name}
+                  options={group.parts}
+                  onSelect={(opt) => {
+                    const others = accessoryPartIds.filter(id => !group.parts.some(p => p.partId === id));
+                    handleOptionSelect('accessoryPartIds', opt.selected ? others : [...others, opt.partId]);
+                  }}
+                  getLabel={(opt) => `${opt.name} (+${formatMoney(opt.unitPrice, conversationState?.pricingData?.currency, 2)})`}
+                  getKey={(opt) => opt.partId}
+                  isSelected={(opt) => opt.selected}
+                  disabled={loading}
+                />
+              ))}
+
+              {/* Blank goods skip every decoration choice */}
+              {isBlank ? (
+                <div style={styles.optionSection}>
+                  <div style={styles.optionSectionHeader}>
+                    <span style={styles.optionSectionTitle}>Decoration</span>
                     <span style={styles.selectedBadge}>✓</span>
-                  ) : (
-                    <span style={styles.optionalBadge}>Optional</span>
-                  )}
+                  </div>
+                  <span style={styles.blankNote}>Blank goods - no imprint</span>
                 </div>
-                <div style={styles.colorCountSelector}>
-                  {/* Start from 0 (for laser engraving) up to max */}
-                  {Array.from({ length: availableOptions.decorationColors.max + 1 }, (_, i) => i).map(num => (
-                    <button
-                      key={num}
-                      onClick={() => handleOptionSelect('decorationColors', num)}
+              ) : (
+                <>
+                  {/* New vs repeat order - repeats reuse existing setups at the repeat price */}
+                  <OptionSection
+                    title="Order Type"
+                    options={availableOptions.orderTypes}
+                    onSelect={(opt) => handleOptionSelect('repeat', opt.id === 'repeat')}
+                    getLabel={(opt) => opt.name}
+                    getKey={(opt) => opt.id}
+                    isSelected={(opt) => opt.selected}
+                    disabled={loading}
+                  />
+
+                  {/* Decoration Methods Section */}
+                  <OptionSection
+                    title="Decoration Method"
+                    required={requiredFields?.decorationMethod}
+                    options={availableOptions.decorationMethods}
+                    onSelect={(opt) => handleOptionSelect('decorationMethod', opt.name)}
+                    getLabel={(opt) => opt.name}
+                    getKey={(opt) => opt.id}
+                    isSelected={(opt) => opt.selected}
+                    disabled={loading}
+                  />
+
+                  {/* Decoration Locations Section */}
+                  <OptionSection
+                    title="Location"
+                    required={requiredFields?.decorationLocation}
+                    options={availableOptions.decorationLocations}
+                    onSelect={(opt) => handleOptionSelect('decorationLocation', opt.name)}
+                    getLabel={(opt) => opt.name}
+                    getKey={(opt) => opt.id}
+                    isSelected={(opt) => opt.selected}
+                    disabled={loading}
+                  />
+
+                  {/* Decoration Colors Section */}
+                  <div style={styles.optionSection}>
+                    <div style={styles.optionSectionHeader}>
+                      <span style={styles.optionSectionTitle}>Imprint Colors</span>
+                      {requiredFields?.decorationColors && availableOptions.decorationColors.selected === null ? (
+                        <span style={styles.requiredBadge}>Required</span>
+                      ) : availableOptions.decorationColors.selected !== null ? (
+                        <span style={styles.selectedBadge}>✓</span>
+                      ) : (
+                        <span style={styles.optionalBadge}>Optional</span>
+                      )}
+                    </div>
+                    <div style={styles.colorCountSelector}>
+                      {/* Start from 0 (for laser engraving) up to max */}
+                      {Array.from({ length: availableOptions.decorationColors.max + 1 }, (_, i) => i).map(num => (
+                        <button
+                          key={num}
+                          onClick={() => handleOptionSelect('decorationColors', num)}
+                          disabled={loading}
+                          style={{
+                            ...styles.colorCountButton,
+                            ...(availableOptions.decorationColors.selected === num ? styles.colorCountButtonSelected : {}),
+                            ...(loading ? styles.optionButtonDisabled : {}),
+                          }}
+                        >
+                          {num === 0 ? '0' : num}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Further imprints, e.g. "2 color back" */}
+                  {additionalImprints.map((imprint, index) => (
+                    <AdditionalImprintSection
+                      key={index}
+                      number={index + 2}
+                      imprint={imprint}
+                      availableOptions={availableOptions}
+                      onChange={(updated) => handleOptionSelect(
+                        'additionalImprints',
+                        additionalImprints.map((existing, i) => i === index ? updated : existing)
+                      )}
+                      onRemove={() => handleOptionSelect(
+                        'additionalImprints',
+                        additionalImprints.filter((_, i) => i !== index)
+                      )}
                       disabled={loading}
-                      style={{
-                        ...styles.colorCountButton,
-                        ...(availableOptions.decorationColors.selected === num ? styles.colorCountButtonSelected : {}),
-                        ...(loading ? styles.optionButtonDisabled : {}),
-                      }}
-                    >
-                      {num === 0 ? '0' : num}
-                    </button>
+                    />
                   ))}
-                </div>
-              </div>
+                  <button
+                    onClick={() => handleOptionSelect('additionalImprints', [...additionalImprints, { decorationColors: 1 }])}
+                    disabled={loading}
+                    style={{ ...styles.addImprintButton, ...(loading ? styles.optionButtonDisabled : {}) }}
+                  >
+                    + Add another imprint
+                  </button>
+                </>
+              )}
             </div>
           </div>
         )}
@@ -502,6 +814,107 @@ export default function OrderEntryPage() {
   );
 }
 
+// User-facing message for each API error code
+function describeApiError(error?: ApiError): string {
+  if (!error) {
+    return 'Something went wrong. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'AUTH_FAILED':
+      return `The supplier rejected our login. Check the PromoStandards username and password configured for this supplier.\n\nDetails: ${error.message}`;
+    case 'PRODUCT_NOT_FOUND':
+      return `The supplier couldn't find that product. Double-check the product ID and supplier.\n\nDetails: ${error.message}`;
+    case 'TIMEOUT':
+      return 'The supplier didn\'t respond in time. Their service may be slow or down - please try again in a minute.';
+    case 'NETWORK_ERROR':
+      return `Couldn't reach the supplier's service. It may be down or blocked from this server.\n\nDetails: ${error.message}`;
+    case 'SUPPLIER_UNAVAILABLE':
+      return 'The supplier\'s service has failed several times in a row, so we\'re pausing calls to it for a moment. Please try again shortly.';
+    case 'HTTP_ERROR':
+      return `The supplier's service returned an error${error.httpStatus ? ` (HTTP ${error.httpStatus})` : ''}. Please try again later.`;
+    case 'SOAP_FAULT':
+    case 'SERVICE_ERROR':
+      return `The supplier reported an error${error.faultCode ? ` (code ${error.faultCode})` : ''}:\n${error.message}`;
+    case 'INVALID_RESPONSE':
+      return `The supplier sent a response we couldn't read.\n\nDetails: ${error.message}`;
+    case 'UNKNOWN_SUPPLIER':
+    case 'SERVICE_NOT_CONFIGURED':
+    case 'MISSING_PRODUCT_ID':
+    case 'INVALID_REQUEST':
+      return error.message;
+    default:
+      return `Something went wrong: ${error.message}`;
+  }
+}
+
+// Method, location and colors for an imprint after the first
+function AdditionalImprintSection({
+  number,
+  imprint,
+  availableOptions,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  number: number;
+  imprint: ImprintSelection;
+  availableOptions: AvailableOptions;
+  onChange: (imprint: ImprintSelection) => void;
+  onRemove: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <div style={styles.imprintSection}>
+      <div style={styles.optionSectionHeader}>
+        <span style={styles.optionSectionTitle}>Imprint {number}</span>
+        <button onClick={onRemove} disabled={disabled} style={styles.removeImprintButton}>
+          Remove
+        </button>
+      </div>
+      <OptionSection
+        title="Decoration Method"
+        required
+        options={availableOptions.decorationMethods}
+        onSelect={(opt) => onChange({ ...imprint, decorationMethod: opt.name })}
+        getLabel={(opt) => opt.name}
+        getKey={(opt) => opt.id}
+        isSelected={(opt) => opt.name === imprint.decorationMethod}
+        disabled={disabled}
+      />
+      <OptionSection
+        title="Location"
+        required
+        options={availableOptions.decorationLocations}
+        onSelect={(opt) => onChange({ ...imprint, decorationLocation: opt.name })}
+        getLabel={(opt) => opt.name}
+        getKey={(opt) => opt.id}
+        isSelected={(opt) => opt.name === imprint.decorationLocation}
+        disabled={disabled}
+      />
+      <div style={styles.optionSectionHeader}>
+        <span style={styles.optionSectionTitle}>Imprint Colors</span>
+      </div>
+      <div style={styles.colorCountSelector}>
+        {Array.from({ length: availableOptions.decorationColors.max + 1 }, (_, i) => i).map(num => (
+          <button
+            key={num}
+            onClick={() => onChange({ ...imprint, decorationColors: num })}
+            disabled={disabled}
+            style={{
+              ...styles.colorCountButton,
+              ...(imprint.decorationColors === num ? styles.colorCountButtonSelected : {}),
+              ...(disabled ? styles.optionButtonDisabled : {}),
+            }}
+          >
+            {num}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 interface OptionSectionProps<T> {
   title: string;
   required?: boolean;
@@ -510,6 +923,8 @@ interface OptionSectionProps<T> {
   getLabel: (option: T) => string;
   getKey: (option: T) => string;
   isSelected: (option: T) => boolean;
+  getBadge?: (option: T) => React.ReactNode;
+  getImageUrl?: (option: T) => string | undefined;
   disabled: boolean;
 }
 
@@ -521,6 +936,8 @@ function OptionSection<T>({
   getLabel,
   getKey,
   isSelected,
+  getBadge,
+  getImageUrl,
   disabled,
 }: OptionSectionProps<T>) {
   const hasSelection = options.some(isSelected);
@@ -554,7 +971,11 @@ function OptionSection<T>({
                 ...(disabled ? styles.optionButtonDisabled : {}),
               }}
             >
+              {getImageUrl?.(opt) && (
+                <img src={getImageUrl(opt)} alt="" style={styles.optionThumbnail} />
+              )}
               {getLabel(opt)}
+              {getBadge?.(opt)}
             </button>
           ))
         )}
@@ -563,12 +984,53 @@ function OptionSection<T>({
   );
 }
 
+// Available stock for a color option; amber when the order quantity is more than what's on hand
+function StockBadge({ stock, quantity }: { stock?: number; quantity: number }) {
+  if (stock === undefined) return null;
+
+  const badgeStyle = stock === 0
+    ? styles.stockBadgeOut
+    : quantity > stock ? styles.stockBadgeLow : styles.stockBadgeIn;
+
+  return (
+    <span style={{ ...styles.stockBadge, ...badgeStyle }}>
+      {stock === 0 ? 'Out of stock' : `${stock.toLocaleString()} in stock`}
+    </span>
+  );
+}
+
+// e.g. "$1,234.50" or "CA$1,234.50"
+function formatMoney(amount: number, currency = 'USD', digits = 2): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount);
+}
+
+function formatAsOf(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
 function LineItemDisplay({ lineItem }: { lineItem: OrderLineItem }) {
+  const money = (amount: number, digits = 2) => formatMoney(amount, lineItem.currency, digits);
+
   return (
     <div style={styles.lineItem}>
       {/* PO-style header */}
       <div style={styles.poHeader}>
-        <div style={styles.poTitle}>ORDER LINE ITEM</div>
+        <div style={styles.poTitle}>
+          ORDER LINE ITEM
+          {lineItem.repeat && (
+            <span style={styles.poRepeatBadge}>
+              REPEAT{lineItem.repeatPoNumber ? ` OF PO ${lineItem.repeatPoNumber}` : ''}
+            </span>
+          )}
+        </div>
+        {lineItem.priceType && (
+          <div style={styles.poPriceBasis}>{lineItem.priceType} pricing • {lineItem.currency || 'USD'}</div>
+        )}
       </div>
 
       {/* Main line item table - horizontal PO format */}
@@ -586,6 +1048,9 @@ function LineItemDisplay({ lineItem }: { lineItem: OrderLineItem }) {
           {/* Product row */}
           <tr style={styles.poTableRow}>
             <td style={styles.poTd}>
+              {lineItem.imageUrl && (
+                <img src={lineItem.imageUrl} alt={lineItem.description} style={styles.poItemImage} />
+              )}
               <div style={styles.poItemId}>{lineItem.partId}</div>
             </td>
             <td style={styles.poTd}>
@@ -593,25 +1058,81 @@ function LineItemDisplay({ lineItem }: { lineItem: OrderLineItem }) {
               <div style={styles.poProductDesc}>{lineItem.description}</div>
             </td>
             <td style={styles.poTdCenter}>{lineItem.quantity.toLocaleString()}</td>
-            <td style={styles.poTdRight}>${lineItem.unitPrice.toFixed(4)}</td>
-            <td style={styles.poTdRight}>${lineItem.extendedPrice.toFixed(2)}</td>
+            <td style={styles.poTdRight}>
+              {money(lineItem.unitPrice, 4)}
+              {lineItem.listUnitPrice !== undefined && (
+                <div style={styles.poListPrice}>List {money(lineItem.listUnitPrice, 4)}</div>
+              )}
+            </td>
+            <td style={styles.poTdRight}>
+              {money(lineItem.extendedPrice)}
+              {lineItem.listExtendedPrice !== undefined && (
+                <div style={styles.poListPrice}>List {money(lineItem.listExtendedPrice)}</div>
+              )}
+            </td>
           </tr>
 
-          {/* Decoration info row */}
-          {lineItem.decorationMethod && (
+          {/* Decoration info rows - one per imprint */}
+          {lineItem.imprints.map((imprint, index) => (
+            <tr key={index} style={styles.poDecorationRow}>
+              <td style={styles.poTd}></td>
+              <td style={styles.poTd} colSpan={4}>
+                <div style={styles.poDecoration}>
+                  <strong>Imprint{lineItem.imprints.length > 1 ? ` ${index + 1}` : ''}:</strong>{' '}
+                  {imprint.decorationMethod} @ {imprint.decorationLocation}
+                  {imprint.decorationColors > 0 && (
+                    <span> • {imprint.decorationColors} color{imprint.decorationColors > 1 ? 's' : ''}</span>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+
+          {lineItem.imprints.length === 0 && (
             <tr style={styles.poDecorationRow}>
               <td style={styles.poTd}></td>
               <td style={styles.poTd} colSpan={4}>
                 <div style={styles.poDecoration}>
-                  <strong>Imprint:</strong> {lineItem.decorationMethod} @ {lineItem.decorationLocation}
-                  {lineItem.decorationColors && (
-                    <span> • {lineItem.decorationColors} color{lineItem.decorationColors > 1 ? 's' : ''}</span>
+                  <strong>Imprint:</strong> None (blank goods)
+                </div>
+              </td>
+            </tr>
+          )}
+
+          {/* Stock row */}
+          {lineItem.stock && (
+            <tr style={lineItem.stock.insufficient ? styles.poStockRowWarning : styles.poDecorationRow}>
+              <td style={styles.poTd}></td>
+              <td style={styles.poTd} colSpan={4}>
+                <div style={styles.poDecoration}>
+                  <strong>Stock:</strong> {lineItem.stock.quantityAvailable.toLocaleString()} available
+                  {lineItem.stock.insufficient && (
+                    <span> • short {(lineItem.quantity - lineItem.stock.quantityAvailable).toLocaleString()} units</span>
+                  )}
+                  {lineItem.stock.locations.length > 0 && (
+                    <span> ({lineItem.stock.locations.map(l => `${l.locationName}: ${l.quantityAvailable.toLocaleString()}`).join(', ')})</span>
                   )}
                 </div>
               </td>
             </tr>
           )}
 
+          {/* Accessory rows - add-on parts such as lids */}
+          {lineItem.accessories.map(accessory => (
+            <tr key={accessory.partId} style={styles.poTableRow}>
+              <td style={styles.poTd}>
+                <div style={styles.poItemId}>{accessory.partId}</div>
+              </td>
+              <td style={styles.poTd}>
+                <div style={styles.poProductName}>Add-on</div>
+                <div style={styles.poProductDesc}>{accessory.description}</div>
+              </td>
+              <td style={styles.poTdCenter}>{accessory.quantity.toLocaleString()}</td>
+              <td style={styles.poTdRight}>{money(accessory.unitPrice, 4)}</td>
+              <td style={styles.poTdRight}>{money(accessory.extendedPrice)}</td>
+            </tr>
+          ))}
+
           {/* Charge rows */}
           {lineItem.charges.map((charge, idx) => (
             <tr key={idx} style={styles.poChargeRow}>
@@ -621,18 +1142,32 @@ function LineItemDisplay({ lineItem }: { lineItem: OrderLineItem }) {
                 <div style={styles.poChargeDesc}>{charge.description}</div>
               </td>
               <td style={styles.poTdCenter}>{charge.quantity > 1 ? charge.quantity.toLocaleString() : '—'}</td>
-              <td style={styles.poTdRight}>{charge.quantity > 1 ? `$${charge.unitPrice.toFixed(4)}` : '—'}</td>
-              <td style={styles.poTdRight}>${charge.extendedPrice.toFixed(2)}</td>
+              <td style={styles.poTdRight}>{charge.quantity > 1 ? money(charge.unitPrice, 4) : '—'}</td>
+              <td style={styles.poTdRight}>{money(charge.extendedPrice)}</td>
             </tr>
           ))}
         </tbody>
         <tfoot>
           <tr style={styles.poTotalRow}>
             <td colSpan={4} style={styles.poTotalLabel}>ORDER TOTAL</td>
-            <td style={styles.poTotalValue}>${lineItem.totalWithCharges.toFixed(2)}</td>
+            <td style={styles.poTotalValue}>{money(lineItem.totalWithCharges)}</td>
           </tr>
         </tfoot>
       </table>
+      {lineItem.nextPriceBreak && (
+        <div style={styles.priceBreakTip}>
+          {lineItem.nextPriceBreak.difference < 0
+            ? `Order ${lineItem.nextPriceBreak.quantity.toLocaleString()} to save ${money(-lineItem.nextPriceBreak.difference)}`
+            : `${lineItem.nextPriceBreak.quantity.toLocaleString()} pieces for ${money(lineItem.nextPriceBreak.difference)} more`}
+          {` (${money(lineItem.nextPriceBreak.unitPrice, 4)} each)`}
+        </div>
+      )}
+      {lineItem.pricingAsOf && (
+        <div style={styles.pricingAsOf}>
+          Pricing as of {formatAsOf(lineItem.pricingAsOf)}
+          {lineItem.fobPoint && ` • Ships from ${[lineItem.fobPoint.city, lineItem.fobPoint.state].filter(Boolean).join(', ') || `FOB ${lineItem.fobPoint.fobId}`}`}
+        </div>
+      )}
     </div>
   );
 }
@@ -883,6 +1418,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '12px',
     color: '#64748b',
   },
+  productCaution: {
+    fontSize: '12px',
+    color: '#b45309',
+    marginTop: '4px',
+  },
   optionsContent: {
     flex: 1,
     overflow: 'auto',
@@ -924,6 +1464,36 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '11px',
     color: '#64748b',
   },
+  blankNote: {
+    color: '#64748b',
+    fontSize: '13px',
+    fontStyle: 'italic',
+  },
+  imprintSection: {
+    marginBottom: '20px',
+    paddingTop: '16px',
+    borderTop: '1px dashed #e2e8f0',
+  },
+  removeImprintButton: {
+    padding: '2px 10px',
+    backgroundColor: 'transparent',
+    color: '#dc2626',
+    border: '1px solid #fecaca',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  addImprintButton: {
+    width: '100%',
+    padding: '8px 14px',
+    marginBottom: '20px',
+    backgroundColor: 'transparent',
+    color: '#475569',
+    border: '1px dashed #cbd5e1',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '13px',
+  },
   optionButtons: {
     display: 'flex',
     flexWrap: 'wrap',
@@ -939,6 +1509,15 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '13px',
     transition: 'all 0.15s',
   },
+  optionThumbnail: {
+    width: '24px',
+    height: '24px',
+    objectFit: 'contain',
+    verticalAlign: 'middle',
+    marginRight: '6px',
+    borderRadius: '4px',
+    backgroundColor: 'white',
+  },
   optionButtonSelected: {
     backgroundColor: '#3b82f6',
     color: 'white',
@@ -969,6 +1548,44 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: 'white',
     borderColor: '#3b82f6',
   },
+  stockBadge: {
+    marginLeft: '6px',
+    padding: '1px 6px',
+    borderRadius: '4px',
+    fontSize: '10px',
+    fontWeight: 600,
+  },
+  stockBadgeIn: {
+    color: '#166534',
+    backgroundColor: '#dcfce7',
+  },
+  stockBadgeLow: {
+    color: '#92400e',
+    backgroundColor: '#fef3c7',
+  },
+  stockBadgeOut: {
+    color: '#991b1b',
+    backgroundColor: '#fee2e2',
+  },
+  stockPanel: {
+    marginTop: '-8px',
+    marginBottom: '20px',
+    padding: '10px 12px',
+    backgroundColor: '#f8fafc',
+    border: '1px solid #e2e8f0',
+    borderRadius: '6px',
+    fontSize: '12px',
+    color: '#475569',
+  },
+  stockPanelTitle: {
+    fontWeight: 600,
+    marginBottom: '6px',
+  },
+  stockPanelRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    padding: '2px 0',
+  },
   quantityInput: {
     width: '100%',
     padding: '10px 14px',
@@ -1079,6 +1696,9 @@ const styles: { [key: string]: React.CSSProperties } = {
     padding: '8px 12px',
     borderRadius: '6px 6px 0 0',
     marginBottom: 0,
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
   },
   poTitle: {
     color: 'white',
@@ -1086,6 +1706,17 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontWeight: 700,
     letterSpacing: '1px',
   },
+  poRepeatBadge: {
+    marginLeft: '8px',
+    padding: '1px 6px',
+    backgroundColor: '#f59e0b',
+    color: '#1e293b',
+    borderRadius: '4px',
+  },
+  poPriceBasis: {
+    color: '#cbd5e1',
+    fontSize: '11px',
+  },
   poTable: {
     width: '100%',
     borderCollapse: 'collapse',
@@ -1142,6 +1773,15 @@ const styles: { [key: string]: React.CSSProperties } = {
     verticalAlign: 'top' as const,
     fontFamily: 'monospace',
   },
+  poItemImage: {
+    display: 'block',
+    width: '56px',
+    height: '56px',
+    objectFit: 'contain',
+    marginBottom: '4px',
+    borderRadius: '4px',
+    border: '1px solid #e2e8f0',
+  },
   poItemId: {
     fontSize: '12px',
     fontWeight: 600,
@@ -1166,6 +1806,10 @@ const styles: { [key: string]: React.CSSProperties } = {
     color: '#475569',
     padding: '4px 0',
   },
+  poStockRowWarning: {
+    backgroundColor: '#fef2f2',
+    borderBottom: '1px solid #fecaca',
+  },
   poChargeRow: {
     backgroundColor: '#fffbeb',
     borderBottom: '1px solid #fde68a',
@@ -1178,6 +1822,10 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '11px',
     color: '#a16207',
   },
+  poListPrice: {
+    fontSize: '11px',
+    color: '#64748b',
+  },
   poTotalRow: {
     backgroundColor: '#1e293b',
   },
@@ -1197,6 +1845,90 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '16px',
     fontFamily: 'monospace',
   },
+  priceBreakTip: {
+    marginTop: '8px',
+    padding: '6px 10px',
+    backgroundColor: '#f0fdf4',
+    color: '#166534',
+    border: '1px solid #bbf7d0',
+    borderRadius: '4px',
+    fontSize: '12px',
+  },
+  pricingAsOf: {
+    padding: '6px 10px 0',
+    fontSize: '11px',
+    color: '#94a3b8',
+    textAlign: 'right' as const,
+  },
+  // Purchase order styles
+  poActionRow: {
+    display: 'flex',
+    justifyContent: 'center',
+    margin: '12px 0',
+  },
+  submitPoButton: {
+    padding: '8px 20px',
+    backgroundColor: '#1e293b',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '13px',
+    fontWeight: 500,
+  },
+  poSubmittedNote: {
+    margin: '12px 0',
+    padding: '10px 16px',
+    backgroundColor: '#eff6ff',
+    border: '1px solid #bfdbfe',
+    borderRadius: '8px',
+    fontSize: '13px',
+    color: '#1e40af',
+    textAlign: 'center' as const,
+  },
+  poForm: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '8px',
+    padding: '16px',
+    margin: '12px 0',
+    backgroundColor: 'white',
+    border: '1px solid #e2e8f0',
+    borderRadius: '12px',
+  },
+  poFormTitle: {
+    fontSize: '14px',
+    fontWeight: 600,
+    color: '#1e293b',
+    marginBottom: '4px',
+  },
+  poFormInput: {
+    padding: '8px 12px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '6px',
+    fontSize: '13px',
+    outline: 'none',
+  },
+  poFormCheckbox: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '12px',
+    color: '#475569',
+  },
+  poXml: {
+    marginTop: '12px',
+    padding: '8px',
+    backgroundColor: '#1e1e1e',
+    color: '#ce9178',
+    borderRadius: '4px',
+    fontSize: '10px',
+    lineHeight: 1.4,
+    maxHeight: '300px',
+    overflow: 'auto',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+  },
   // Feedback styles
   feedbackContainer: {
     display: 'flex',
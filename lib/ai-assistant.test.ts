@@ -0,0 +1,155 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findChargePrice, buildLineItem, matchRequestPatterns } from './ai-assistant';
+import { Charge, ChargePrice, ConversationState, Decoration, PricingConfiguration } from '../types';
+
+function row(fields: Partial<ChargePrice> & { price: number }): ChargePrice {
+  return { xMinQty: 1, xUom: 'EA', yMinQty: 1, yUom: 'Colors', repeatPrice: fields.price, ...fields };
+}
+
+function charge(chargeId: string, chargeType: Charge['chargeType'], priceArray: ChargePrice[]): Charge {
+  return { chargeId, chargeName: `Charge ${chargeId}`, chargeDescription: `Charge ${chargeId}`, chargeType, priceArray };
+}
+
+const SETUP = charge('S', 'Setup', [
+  row({ xMinQty: 1, price: 60 }),
+  row({ xMinQty: 1, yMinQty: 3, price: 90 }),
+]);
+// Per-piece imprint charge; Colors rows are extra-color charges
+const RUN = charge('R', 'Run', [
+  row({ xMinQty: 50, yUom: 'Locations', price: 0.5 }),
+  row({ xMinQty: 500, yUom: 'Locations', price: 0.3 }),
+]);
+const EXTRA_COLOR = charge('X', 'Run', [
+  row({ xMinQty: 50, yMinQty: 2, price: 0.4 }),
+  row({ xMinQty: 500, yMinQty: 2, price: 0.2 }),
+]);
+const REPEAT_SETUP = charge('RS', 'Setup', [row({ price: 60, repeatPrice: 25 })]);
+const NO_REPEAT_SETUP = charge('NS', 'Setup', [row({ price: 60, repeatPrice: undefined })]);
+const STITCHES = charge('E', 'Setup', [
+  row({ yUom: 'Stitches', yMinQty: 5000, price: 50 }),
+  row({ yUom: 'Stitches', yMinQty: 10000, price: 70 }),
+]);
+
+function quote(charges: Charge[], quantity: number, decorationColors: number, repeat = false) {
+  const decoration: Decoration = {
+    decorationId: '1',
+    decorationName: 'Screen Print',
+    decorationGeometry: 'Rectangle',
+    decorationHeight: 2,
+    decorationWidth: 2,
+    decorationUom: 'Inches',
+    decorationUnitsIncluded: 1,
+    decorationUnitsMax: 4,
+    defaultDecoration: true,
+    charges,
+  };
+  const pricingData: PricingConfiguration = {
+    productId: 'MUG',
+    currency: 'USD',
+    fobId: '1',
+    fobPoints: [],
+    priceType: 'Net',
+    configurationType: 'Decorated',
+    parts: [{ partId: 'MUG-W', partDescription: 'Mug - White', priceBreaks: [{ minQuantity: 1, price: 2, priceUom: 'EA' }] }],
+    locations: [{ locationId: '1', locationName: 'Front', defaultLocation: true, decorations: [decoration] }],
+  };
+  const state: ConversationState = {
+    supplierId: 'test',
+    parsedRequest: {},
+    questions: [],
+    pricingData,
+    selectedOptions: { quantity, partId: 'MUG-W', decorationMethod: 'Screen Print', decorationLocation: 'Front', decorationColors, repeat },
+  };
+  const lineItem = buildLineItem(state, 'Mug');
+  assert.ok(lineItem);
+  return lineItem;
+}
+
+test('findChargePrice picks the highest quantity tier reached', () => {
+  assert.equal(findChargePrice(RUN, 100, 1)?.price, 0.5);
+  assert.equal(findChargePrice(RUN, 500, 1)?.price, 0.3);
+});
+
+test('findChargePrice uses the smallest quantity tier below it', () => {
+  assert.equal(findChargePrice(RUN, 10, 1)?.price, 0.5);
+});
+
+test('findChargePrice picks the highest color tier reached', () => {
+  assert.equal(findChargePrice(SETUP, 100, 2)?.price, 60);
+  assert.equal(findChargePrice(SETUP, 100, 3)?.price, 90);
+});
+
+test('findChargePrice has no extra-color row for a one-color order', () => {
+  assert.equal(findChargePrice(EXTRA_COLOR, 100, 1), undefined);
+  assert.equal(findChargePrice(EXTRA_COLOR, 600, 2)?.price, 0.2);
+});
+
+test('findChargePrice uses the lowest tier of uoms the order does not measure', () => {
+  assert.equal(findChargePrice(STITCHES, 100, 1)?.price, 50);
+});
+
+test('buildLineItem charges setup and run at the tiers reached', () => {
+  const small = quote([SETUP, RUN], 100, 1);
+  assert.deepEqual(small.charges.map(c => [c.chargeType, c.extendedPrice]), [['Setup', 60], ['Run', 50]]);
+  assert.equal(small.totalWithCharges, 200 + 60 + 50);
+
+  const large = quote([SETUP, RUN], 1000, 3);
+  assert.deepEqual(large.charges.map(c => [c.chargeType, c.extendedPrice]), [['Setup', 90], ['Run', 300]]);
+});
+
+test('buildLineItem charges colors beyond those included', () => {
+  const lineItem = quote([RUN, EXTRA_COLOR], 100, 3);
+  const extra = lineItem.charges.find(c => c.chargeId === 'X');
+  assert.equal(extra?.description, '2 extra color(s)');
+  assert.equal(extra?.extendedPrice, 0.4 * 100 * 2);
+
+  assert.equal(quote([RUN, EXTRA_COLOR], 100, 1).charges.some(c => c.chargeId === 'X'), false);
+});
+
+test('buildLineItem prices a quantity below the smallest charge tier at that tier', () => {
+  const lineItem = quote([RUN], 20, 1);
+  assert.equal(lineItem.charges[0].unitPrice, 0.5);
+  assert.equal(lineItem.charges[0].extendedPrice, 10);
+});
+
+test('buildLineItem keeps a setup charge tiered in stitches', () => {
+  const lineItem = quote([STITCHES], 100, 1);
+  assert.deepEqual(lineItem.charges.map(c => c.extendedPrice), [50]);
+  assert.equal(lineItem.totalWithCharges, 200 + 50);
+});
+
+test('matchRequestPatterns takes the PO number from "repeat of PO 12345"', () => {
+  const parsed = matchRequestPatterns('repeat of PO 12345, 500 of 55900');
+  assert.equal(parsed.repeat, true);
+  assert.equal(parsed.repeatPoNumber, '12345');
+  assert.equal(parsed.quantity, 500);
+  assert.equal(parsed.productId, '55900');
+});
+
+test('matchRequestPatterns does not read the quantity in "repeat order 300 of 55900" as a PO number', () => {
+  const parsed = matchRequestPatterns('repeat order 300 of 55900');
+  assert.equal(parsed.repeat, true);
+  assert.equal(parsed.repeatPoNumber, undefined);
+  assert.equal(parsed.quantity, 300);
+  assert.equal(parsed.productId, '55900');
+});
+
+test('buildLineItem charges a reorder the repeat setup price', () => {
+  const lineItem = quote([REPEAT_SETUP], 100, 1, true);
+  assert.equal(lineItem.charges[0].extendedPrice, 25);
+  assert.match(lineItem.charges[0].description, /Repeat setup/);
+});
+
+test('buildLineItem charges a reorder the full setup when no repeat price is sent', () => {
+  const lineItem = quote([NO_REPEAT_SETUP], 100, 1, true);
+  assert.equal(lineItem.charges[0].extendedPrice, 60);
+  assert.match(lineItem.charges[0].description, /no repeat price/);
+});
+
+test('matchRequestPatterns reads "no imprint on the back" as one undecorated location, not a blank order', () => {
+  const parsed = matchRequestPatterns('500 of 55900, 1 color front, no imprint on the back');
+  assert.equal(parsed.blank, undefined);
+  assert.equal(matchRequestPatterns('500 of 55900 with no logo on the back').blank, undefined);
+  assert.equal(matchRequestPatterns('500 blank 55900 tumblers').blank, true);
+});
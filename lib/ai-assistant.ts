@@ -1,16 +1,70 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { ParsedRequest, Question, PricingConfiguration, OrderLineItem, ConversationState, LineItemCharge } from '../types';
+import { ParsedRequest, Question, PricingConfiguration, OrderLineItem, ConversationState, LineItemCharge, LineItemImprint, LineItemAccessory, ImprintSelection, PriceBreakSuggestion, Part, Charge, ChargePrice } from '../types';
 import { followUpExamples, formatExamplesForPrompt, findSynonymMatch } from './examples';
 import { tryLearnedMatch, getExamplesForPrompt, addExample } from './learning';
+import { findSupplierInText } from './suppliers';
+import { addDebugLog, TraceContext } from './debug-log';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 });
 
-export async function parseUserRequest(userInput: string): Promise<ParsedRequest> {
-  // First, try to extract common patterns with regex for reliability
+const AI_MODEL = 'claude-sonnet-4-20250514';
+
+// Send a single-prompt message and record it in the request's debug trace
+async function createMessage(
+  trace: TraceContext,
+  operation: string,
+  prompt: string,
+  maxTokens: number
+): Promise<Anthropic.Message> {
+  const startedAt = Date.now();
+  try {
+    const message = await anthropic.messages.create({
+      model: AI_MODEL,
+      max_tokens: maxTokens,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    const content = message.content[0];
+    addDebugLog(
+      trace,
+      operation,
+      prompt,
+      content?.type === 'text' ? content.text : undefined,
+      undefined,
+      { durationMs: Date.now() - startedAt }
+    );
+    return message;
+  } catch (error) {
+    addDebugLog(trace, operation, prompt, undefined, String(error), { durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
+
+const REPEAT_PATTERN = /\b(re-?orders?|repeat)\b/i;
+const REPEAT_PO_PATTERN = /\b(?:repeat|re-?order)\s+(?:of\s+)?(?:po|purchase\s+order|order\s*(?:number|#|no\.))\s*(?:number|#|no\.?)?\s*#?([A-Z0-9-]*\d[A-Z0-9-]*)/i;
+const IMPRINT_LOCATIONS = 'front|back|left chest|right chest|left|right|sides?|sleeve|pocket|wrap|top|bottom|lid|handle';
+// "1 color front", "2-color on the back" - one match per imprint
+const IMPRINT_PATTERN = new RegExp(`\\b(\\d|one|two|three|four)[\\s-]+colou?rs?\\s+(?:imprint\\s+)?(?:on\\s+)?(?:the\\s+)?(${IMPRINT_LOCATIONS})\\b`, 'gi');
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4 };
+// "with the black lid", "with a straw" - add-on parts, matched to accessory parts once priced
+const ACCESSORY_PATTERN = /\bwith\s+(?:an?\s+|the\s+)?((?:[a-z]+\s+){0,2}(?:lids?|straws?|straps?|caps?|cases?|pouch(?:es)?|gift\s+box(?:es)?|carabiners?|clips?|lanyards?))\b/gi;
+// Whole-order phrases only - "no imprint on the back" leaves the rest of the order decorated
+const BLANK_PATTERN = new RegExp(`\\b(blanks?|undecorated|unimprinted|no\\s+(imprint|decoration|logo|print(ing)?|branding))\\b(?!\\s+on\\s+(?:the\\s+)?(?:${IMPRINT_LOCATIONS})\\b)`, 'i');
+
+// The regex pass of parseUserRequest - common patterns extracted reliably without the AI
+export function matchRequestPatterns(userInput: string): ParsedRequest {
   const result: ParsedRequest = {};
 
+  // Reorders - "reorder", "repeat of PO 12345". The PO number is left out of the
+  // text searched for the quantity and product ID so it isn't mistaken for either.
+  const repeatPo = userInput.match(REPEAT_PO_PATTERN);
+  const orderText = repeatPo ? userInput.replace(repeatPo[0], ' ') : userInput;
+  if (repeatPo || REPEAT_PATTERN.test(userInput)) {
+    result.repeat = true;
+    result.repeatPoNumber = repeatPo?.[1];
+  }
+
   // Extract quantity - look for numbers followed by "of" or at the start
   const qtyPatterns = [
     /(\d+)\s+of\s+/i,                    // "500 of product"
@@ -20,7 +74,7 @@ export async function parseUserRequest(userInput: string): Promise<ParsedRequest
   ];
 
   for (const pattern of qtyPatterns) {
-    const match = userInput.match(pattern);
+    const match = orderText.match(pattern);
     if (match) {
       result.quantity = parseInt(match[1], 10);
       break;
@@ -32,12 +86,15 @@ export async function parseUserRequest(userInput: string): Promise<ParsedRequest
     /product\s*#?\s*(\d{4,6})/i,          // "product 55900" or "product #55900"
     /(?:of|order)\s+#?(\d{4,6})/i,        // "of 55900" or "order 55900"
     /item\s*#?\s*(\d{4,6})/i,             // "item 55900"
+    // Alphanumeric style numbers in capitals, "of MOCK-TOTE" or "item G500" - lowercase
+    // words like "two-tone" are left alone
+    /\b(?:[Pp]roduct|[Ii]tem|[Oo]f|[Oo]rder)\s*#?\s*([A-Z][A-Z\d]*(?:-[A-Z\d]+)+|[A-Z]+\d[A-Z\d-]*)\b/,
     /#(\d{4,6})/i,                         // "#55900"
     /\b(\d{4,6})\b/,                       // any 4-6 digit number as fallback
   ];
 
   for (const pattern of productPatterns) {
-    const match = userInput.match(pattern);
+    const match = orderText.match(pattern);
     if (match) {
       // Make sure we don't pick up the quantity as product ID
       const potentialId = match[1];
@@ -51,7 +108,7 @@ export async function parseUserRequest(userInput: string): Promise<ParsedRequest
   // If we still don't have a product ID, look for any remaining number
   if (!result.productId) {
     // Remove the quantity from the string and look for remaining numbers
-    let remaining = userInput;
+    let remaining = orderText;
     if (result.quantity) {
       remaining = remaining.replace(String(result.quantity), '');
     }
@@ -61,26 +118,63 @@ export async function parseUserRequest(userInput: string): Promise<ParsedRequest
     }
   }
 
+  // Several imprints - "1 color front, 2 color back". The first is the order's main
+  // imprint; the AI below fills in methods and any phrasing these patterns miss.
+  const imprintMatches = Array.from(orderText.matchAll(IMPRINT_PATTERN)).map(match => ({
+    decorationLocation: match[2].toLowerCase(),
+    decorationColors: NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10),
+  }));
+  if (imprintMatches.length > 1) {
+    result.decorationLocation = imprintMatches[0].decorationLocation;
+    result.decorationColors = imprintMatches[0].decorationColors;
+    result.additionalImprints = imprintMatches.slice(1);
+  }
+
+  // Accessories - "tumblers with the black lid"
+  const accessoryMatches = Array.from(orderText.matchAll(ACCESSORY_PATTERN)).map(match => match[1].toLowerCase());
+  if (accessoryMatches.length > 0) {
+    result.accessories = accessoryMatches;
+  }
+
+  // Blank goods - "blank", "no imprint", "undecorated" - unless an imprint was asked for
+  if (imprintMatches.length === 0 && BLANK_PATTERN.test(userInput)) {
+    result.blank = true;
+  }
+
+  // Canadian dollar pricing - "in CAD", "canadian dollars"
+  if (/\b(CAD|canadian\s+(dollars?|pricing|prices?))\b/i.test(userInput)) {
+    result.currency = 'CAD';
+  }
+
+  return result;
+}
+
+export async function parseUserRequest(trace: TraceContext, userInput: string): Promise<ParsedRequest> {
+  // First, try to extract common patterns with regex for reliability
+  const result = matchRequestPatterns(userInput);
+
+  // Extract supplier - "from hit", "supplier hit" or a supplier name
+  const supplier = findSupplierInText(userInput);
+  if (supplier) {
+    result.supplierId = supplier.id;
+  }
+
   // Use AI to extract the rest (color, decoration details)
   try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 500,
-      messages: [{
-        role: 'user',
-        content: `Extract order details from this request. Return ONLY a JSON object.
+    const message = await createMessage(trace, 'AI Parse Request', `Extract order details from this request. Return ONLY a JSON object.
 
 User request: "${userInput}"
 
 Extract these fields (use null if not mentioned):
-- color: string (color name like "black", "red", "blue")
+- productId: string (the supplier's product or style number, e.g., "55900", "G500", "MOCK-TOTE")
+- color: string (color name of the product itself like "black", "red", "blue" - not of an accessory)
 - decorationMethod: string (e.g., "silk screen", "laser engrave", "embroidery")
 - decorationLocation: string (e.g., "front", "back", "side", "wrap")
 - decorationColors: number (how many imprint colors, e.g., "one color" = 1, "full color" = 4)
+- accessories: array of strings naming add-on parts wanted with the product (e.g., "tumblers with the black lid" = ["black lid"])
+- additionalImprints: array of {decorationMethod, decorationLocation, decorationColors} for each imprint after the first, when more than one location is decorated (e.g., "1 color front, 2 color back" = decorationLocation "front", decorationColors 1, additionalImprints [{"decorationMethod": null, "decorationLocation": "back", "decorationColors": 2}])
 
-Return ONLY valid JSON like: {"color": null, "decorationMethod": null, "decorationLocation": null, "decorationColors": null}`,
-      }],
-    });
+Return ONLY valid JSON like: {"productId": null, "color": null, "decorationMethod": null, "decorationLocation": null, "decorationColors": null, "accessories": [], "additionalImprints": []}`, 500);
 
     const content = message.content[0];
     if (content.type === 'text') {
@@ -92,6 +186,16 @@ Return ONLY valid JSON like: {"color": null, "decorationMethod": null, "decorati
       if (aiParsed.decorationMethod) result.decorationMethod = aiParsed.decorationMethod;
       if (aiParsed.decorationLocation) result.decorationLocation = aiParsed.decorationLocation;
       if (aiParsed.decorationColors) result.decorationColors = aiParsed.decorationColors;
+      if (!result.accessories && Array.isArray(aiParsed.accessories) && aiParsed.accessories.length > 0) {
+        result.accessories = aiParsed.accessories.filter((a: unknown) => typeof a === 'string' && a.trim() !== '');
+      }
+      if (!result.additionalImprints && Array.isArray(aiParsed.additionalImprints) && aiParsed.additionalImprints.length > 0) {
+        result.additionalImprints = aiParsed.additionalImprints.map((imprint: Record<string, any>) => ({
+          decorationMethod: imprint.decorationMethod || undefined,
+          decorationLocation: imprint.decorationLocation || undefined,
+          decorationColors: imprint.decorationColors || undefined,
+        }));
+      }
 
       // If AI found productId/quantity and we didn't, use those
       if (!result.productId && aiParsed.productId) result.productId = aiParsed.productId;
@@ -102,11 +206,18 @@ Return ONLY valid JSON like: {"color": null, "decorationMethod": null, "decorati
     // Continue with regex-extracted values
   }
 
+  // Further imprints usually use the same method as the first when none is named
+  result.additionalImprints = result.additionalImprints?.map(imprint => ({
+    ...imprint,
+    decorationMethod: imprint.decorationMethod || result.decorationMethod,
+  }));
+
   console.log('Parsed request:', result);
   return result;
 }
 
 export async function generateQuestions(
+  trace: TraceContext,
   parsedRequest: ParsedRequest,
   pricingData: PricingConfiguration
 ): Promise<Question[]> {
@@ -135,11 +246,7 @@ Rules:
 
 Return ONLY the JSON array, no other text.`;
 
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 1000,
-    messages: [{ role: 'user', content: prompt }],
-  });
+  const message = await createMessage(trace, 'AI Generate Questions', prompt, 1000);
 
   const content = message.content[0];
   if (content.type === 'text') {
@@ -155,6 +262,7 @@ Return ONLY the JSON array, no other text.`;
 }
 
 export async function parseUserResponse(
+  trace: TraceContext,
   userInput: string,
   currentState: ConversationState,
   availableOptions?: {
@@ -251,11 +359,7 @@ Return ONLY a JSON object with the fields you can extract:
 }`;
 
   try {
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 500,
-      messages: [{ role: 'user', content: prompt }],
-    });
+    const message = await createMessage(trace, 'AI Parse Response', prompt, 500);
 
     const content = message.content[0];
     if (content.type === 'text') {
@@ -405,9 +509,226 @@ function tryDirectMatch(
   return result;
 }
 
+// Unit price from the highest price break the quantity reaches
+export function getUnitPrice(part: Part, quantity: number): number {
+  let unitPrice = 0;
+  for (const priceBreak of part.priceBreaks) {
+    if (quantity >= priceBreak.minQuantity) {
+      unitPrice = priceBreak.price;
+    }
+  }
+  return unitPrice;
+}
+
+// Order value a ChargePrice tier is measured in: imprint colors for "Colors", one
+// location per imprint for "Locations", otherwise the given default (the piece
+// quantity for xUom)
+function tierValue(uom: string, colors: number, defaultValue: number): number {
+  if (/colou?rs?/i.test(uom)) return colors;
+  if (/locations?/i.test(uom)) return 1;
+  return defaultValue;
+}
+
+// yUoms the line records a value for; tiers in anything else (Stitches, SquareInches)
+// can't be checked, so the lowest of them is used
+function isMeasuredUom(uom: string): boolean {
+  return /colou?rs?|locations?/i.test(uom);
+}
+
+// ChargePrice row for this order: the highest quantity tier (xMinQty) the order
+// reaches, then the highest imprint tier (yMinQty). Orders below the smallest
+// quantity tier use it anyway (suppliers quote less-than-minimum orders at it);
+// orders below every imprint tier get no row - e.g. a one-color order has no
+// "additional color" charge.
+export function findChargePrice(charge: Charge, quantity: number, colors: number): ChargePrice | undefined {
+  const unmeasured = charge.priceArray.filter(row => !isMeasuredUom(row.yUom));
+  const lowestUnmeasuredY = Math.min(...unmeasured.map(row => row.yMinQty));
+  const rows = charge.priceArray.filter(row => isMeasuredUom(row.yUom)
+    ? tierValue(row.yUom, colors, colors) >= row.yMinQty
+    : row.yMinQty === lowestUnmeasuredY
+  );
+  if (rows.length === 0) return undefined;
+
+  const byTier = (a: ChargePrice, b: ChargePrice) => (b.xMinQty - a.xMinQty) || (b.yMinQty - a.yMinQty);
+  const reached = rows.filter(row => tierValue(row.xUom, colors, quantity) >= row.xMinQty);
+  if (reached.length > 0) return [...reached].sort(byTier)[0];
+
+  const lowestX = Math.min(...rows.map(row => row.xMinQty));
+  return rows.filter(row => row.xMinQty === lowestX).sort(byTier)[0];
+}
+
+// Setup and run charges for one imprint, plus the decoration's once-per-order charges
+// (kept apart so the caller can add each only once per line)
+function buildImprint(
+  pricingData: PricingConfiguration,
+  selection: ImprintSelection,
+  quantity: number,
+  repeat: boolean,
+  labelCharges: boolean
+): LineItemImprint & { orderCharges: LineItemCharge[] } {
+  const decorationMethod = selection.decorationMethod!;
+  const decorationLocation = selection.decorationLocation!;
+  const decorationColors = selection.decorationColors ?? 1;
+  const charges: LineItemCharge[] = [];
+  const orderCharges: LineItemCharge[] = [];
+  // With several imprints, say which one each charge is for
+  const label = (description: string) => labelCharges ? `${decorationLocation}: ${description}` : description;
+
+  const location = pricingData.locations.find(l =>
+    l.locationName.toLowerCase() === decorationLocation.toLowerCase() ||
+    l.locationId === decorationLocation
+  );
+
+  console.log('Looking for location:', decorationLocation, 'Found:', location?.locationName);
+
+  const decoration = location?.decorations.find(d =>
+    d.decorationName.toLowerCase() === decorationMethod.toLowerCase() ||
+    d.decorationName.toLowerCase().includes(decorationMethod.toLowerCase()) ||
+    decorationMethod.toLowerCase().includes(d.decorationName.toLowerCase())
+  );
+
+  if (location) {
+    console.log('Looking for decoration method:', decorationMethod, 'Found:', decoration?.decorationName);
+    console.log('Decoration has charges:', decoration?.charges?.length || 0);
+  }
+
+  if (decoration) {
+    // Add setup charges
+    const setupCharges = decoration.charges.filter(c => c.chargeType === 'Setup');
+    for (const charge of setupCharges) {
+      const chargePrice = findChargePrice(charge, quantity, decorationColors);
+      if (chargePrice) {
+        // Without a repeat price from the supplier a reorder pays the full setup
+        const repeatPrice = repeat ? chargePrice.repeatPrice : undefined;
+        const price = repeatPrice ?? chargePrice.price;
+        const setupLabel = !repeat ? 'Setup' : repeatPrice !== undefined ? 'Repeat setup' : 'Setup (no repeat price - charged at full setup)';
+        charges.push({
+          chargeId: charge.chargeId,
+          chargeType: charge.chargeType,
+          name: charge.chargeName,
+          description: label(`${charge.chargeDescription} - ${setupLabel}`),
+          quantity: 1,
+          unitPrice: price,
+          extendedPrice: price,
+        });
+      }
+    }
+
+    // Add order charges (flat, once per order - e.g. less-than-minimum fees)
+    const flatCharges = decoration.charges.filter(c => c.chargeType === 'Order');
+    for (const charge of flatCharges) {
+      const chargePrice = findChargePrice(charge, quantity, decorationColors);
+      if (chargePrice) {
+        const price = chargePrice.price;
+        orderCharges.push({
+          chargeId: charge.chargeId,
+          chargeType: charge.chargeType,
+          name: charge.chargeName,
+          description: charge.chargeDescription,
+          quantity: 1,
+          unitPrice: price,
+          extendedPrice: price,
+        });
+      }
+    }
+
+    // Add run charges
+    const runCharges = decoration.charges.filter(c => c.chargeType === 'Run');
+    for (const charge of runCharges) {
+      const chargePrice = findChargePrice(charge, quantity, decorationColors);
+      if (chargePrice) {
+        // Check if this is a color-based charge
+        if (chargePrice.yUom === 'Colors') {
+          // Extra color charge
+          const extraColors = decorationColors - decoration.decorationUnitsIncluded;
+          if (extraColors > 0) {
+            charges.push({
+              chargeId: charge.chargeId,
+              chargeType: charge.chargeType,
+              name: charge.chargeName,
+              description: label(`${extraColors} extra color(s)`),
+              quantity: quantity,
+              unitPrice: chargePrice.price,
+              extendedPrice: chargePrice.price * quantity * extraColors,
+            });
+          }
+        } else {
+          // Standard run charge (like imprint per piece)
+          charges.push({
+            chargeId: charge.chargeId,
+            chargeType: charge.chargeType,
+            name: charge.chargeName,
+            description: label(charge.chargeDescription),
+            quantity: quantity,
+            unitPrice: chargePrice.price,
+            extendedPrice: chargePrice.price * quantity,
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    decorationMethod,
+    decorationLocation,
+    decorationColors,
+    charges,
+    orderCharges,
+  };
+}
+
+// Smallest quantity the part is priced for (price breaks are sorted by minQuantity)
+export function getMinimumQuantity(part: Part): number | undefined {
+  return part.priceBreaks[0]?.minQuantity;
+}
+
+// A higher price break is mentioned if it lowers the total, or costs more but is
+// within this fraction of the ordered quantity
+const PRICE_BREAK_WINDOW = 0.2;
+
 export function buildLineItem(
   state: ConversationState,
   productName: string
+): OrderLineItem | null {
+  const lineItem = priceLineItem(state, productName);
+  if (lineItem) {
+    lineItem.nextPriceBreak = findNextPriceBreak(state, productName, lineItem);
+  }
+  return lineItem;
+}
+
+// Reprice the whole line - product, accessories and decoration charges - at the part's
+// next price break
+function findNextPriceBreak(
+  state: ConversationState,
+  productName: string,
+  lineItem: OrderLineItem
+): PriceBreakSuggestion | undefined {
+  const part = state.pricingData?.parts.find(p => p.partId === lineItem.partId);
+  const nextBreak = part?.priceBreaks.find(b => b.minQuantity > lineItem.quantity);
+  if (!nextBreak || nextBreak.price >= lineItem.unitPrice) return undefined;
+
+  const atBreak = priceLineItem({
+    ...state,
+    selectedOptions: { ...state.selectedOptions, quantity: nextBreak.minQuantity },
+  }, productName);
+  if (!atBreak) return undefined;
+
+  const difference = atBreak.totalWithCharges - lineItem.totalWithCharges;
+  const close = nextBreak.minQuantity <= lineItem.quantity * (1 + PRICE_BREAK_WINDOW);
+  if (difference >= 0 && !close) return undefined;
+
+  return {
+    quantity: nextBreak.minQuantity,
+    unitPrice: atBreak.unitPrice,
+    totalWithCharges: atBreak.totalWithCharges,
+    difference,
+  };
+}
+
+function priceLineItem(
+  state: ConversationState,
+  productName: string
 ): OrderLineItem | null {
   const { parsedRequest, selectedOptions, pricingData } = state;
   
@@ -418,97 +739,78 @@ export function buildLineItem(
   const decorationMethod = selectedOptions.decorationMethod || parsedRequest.decorationMethod;
   const decorationLocation = selectedOptions.decorationLocation || parsedRequest.decorationLocation;
   const decorationColors = selectedOptions.decorationColors || parsedRequest.decorationColors || 1;
+  const blank = Boolean(selectedOptions.blank ?? parsedRequest.blank);
+  // Repeat orders reuse the supplier's existing screens/dies at the repeat setup price
+  const repeat = Boolean(selectedOptions.repeat ?? parsedRequest.repeat);
   
   if (!quantity || !partId) return null;
   
   // Find the part
   const part = pricingData.parts.find(p => p.partId === partId);
   if (!part) return null;
+
+  // Below the first price break there is no price - never quote $0.00
+  const minimumQuantity = getMinimumQuantity(part);
+  if (minimumQuantity !== undefined && quantity < minimumQuantity) return null;
   
-  // Get unit price based on quantity
-  let unitPrice = 0;
-  for (const priceBreak of part.priceBreaks) {
-    if (quantity >= priceBreak.minQuantity) {
-      unitPrice = priceBreak.price;
-    }
-  }
-  
+  const unitPrice = getUnitPrice(part, quantity);
   const extendedPrice = unitPrice * quantity;
-  const charges: LineItemCharge[] = [];
-  
-  // Add decoration charges if decoration method is specified
-  if (decorationMethod && decorationLocation) {
-    const location = pricingData.locations.find(l =>
-      l.locationName.toLowerCase() === decorationLocation.toLowerCase() ||
-      l.locationId === decorationLocation
-    );
 
-    console.log('Looking for location:', decorationLocation, 'Found:', location?.locationName);
-
-    if (location) {
-      const decoration = location.decorations.find(d =>
-        d.decorationName.toLowerCase() === decorationMethod.toLowerCase() ||
-        d.decorationName.toLowerCase().includes(decorationMethod.toLowerCase()) ||
-        decorationMethod.toLowerCase().includes(d.decorationName.toLowerCase())
-      );
-
-      console.log('Looking for decoration method:', decorationMethod, 'Found:', decoration?.decorationName);
-      console.log('Decoration has charges:', decoration?.charges?.length || 0);
-      
-      if (decoration) {
-        // Add setup charges
-        const setupCharges = decoration.charges.filter(c => c.chargeType === 'Setup');
-        for (const charge of setupCharges) {
-          if (charge.priceArray.length > 0) {
-            const chargePrice = charge.priceArray[0];
-            // Use price for first setup, repeatPrice would be for repeat orders
-            const price = chargePrice.price;
-            charges.push({
-              name: charge.chargeName,
-              description: `${charge.chargeDescription} - Setup`,
-              quantity: 1,
-              unitPrice: price,
-              extendedPrice: price,
-            });
-          }
-        }
-        
-        // Add run charges
-        const runCharges = decoration.charges.filter(c => c.chargeType === 'Run');
-        for (const charge of runCharges) {
-          if (charge.priceArray.length > 0) {
-            const chargePrice = charge.priceArray[0];
-            
-            // Check if this is a color-based charge
-            if (chargePrice.yUom === 'Colors' && decorationColors > chargePrice.yMinQty) {
-              // Extra color charge
-              const extraColors = decorationColors - decoration.decorationUnitsIncluded;
-              if (extraColors > 0) {
-                charges.push({
-                  name: charge.chargeName,
-                  description: `${extraColors} extra color(s)`,
-                  quantity: quantity,
-                  unitPrice: chargePrice.price,
-                  extendedPrice: chargePrice.price * quantity * extraColors,
-                });
-              }
-            } else if (chargePrice.yUom !== 'Colors') {
-              // Standard run charge (like imprint per piece)
-              charges.push({
-                name: charge.chargeName,
-                description: charge.chargeDescription,
-                quantity: quantity,
-                unitPrice: chargePrice.price,
-                extendedPrice: chargePrice.price * quantity,
-              });
-            }
-          }
-        }
-      }
+  // List price for comparison, only when it was fetched for the same FOB point and currency
+  const { listPricingData } = state;
+  const listPart = listPricingData
+    && listPricingData.fobId === pricingData.fobId
+    && listPricingData.currency === pricingData.currency
+    && pricingData.priceType !== 'List'
+    ? listPricingData.parts.find(p => p.partId === partId)
+    : undefined;
+  const listUnitPrice = listPart ? getUnitPrice(listPart, quantity) : undefined;
+  // Blank goods have no imprints; an imprint without a method and location can't be priced
+  const selections: ImprintSelection[] = blank ? [] : [
+    { decorationMethod, decorationLocation, decorationColors },
+    ...(selectedOptions.additionalImprints || parsedRequest.additionalImprints || []),
+  ];
+  const labelCharges = selections.length > 1;
+
+  const imprints: LineItemImprint[] = [];
+  const orderCharges: LineItemCharge[] = [];
+  for (const selection of selections) {
+    if (!selection.decorationMethod || !selection.decorationLocation) continue;
+    const { orderCharges: imprintOrderCharges, ...imprint } = buildImprint(pricingData, selection, quantity, repeat, labelCharges);
+    imprints.push(imprint);
+    // Order charges (e.g. less-than-minimum fees) apply once however many imprints carry them
+    for (const charge of imprintOrderCharges) {
+      if (!orderCharges.some(c => c.chargeId === charge.chargeId)) orderCharges.push(charge);
     }
   }
-  
+  const charges = [...imprints.flatMap(i => i.charges), ...orderCharges];
+
+  // Add-on parts (partGroup 2+, e.g. lids), priced from their own price breaks
+  const accessories: LineItemAccessory[] = [];
+  for (const accessoryId of (selectedOptions.accessoryPartIds || []) as string[]) {
+    const accessory = pricingData.parts.find(p => p.partId === accessoryId);
+    if (!accessory) continue;
+    const accessoryQuantity = Math.ceil(quantity * (accessory.ratio ?? 1));
+    const accessoryUnitPrice = getUnitPrice(accessory, accessoryQuantity);
+    accessories.push({
+      partId: accessory.partId,
+      description: accessory.partDescription,
+      quantity: accessoryQuantity,
+      unitPrice: accessoryUnitPrice,
+      extendedPrice: accessoryUnitPrice * accessoryQuantity,
+    });
+  }
+  const accessoriesTotal = accessories.reduce((sum, a) => sum + a.extendedPrice, 0);
+
   const chargesTotal = charges.reduce((sum, c) => sum + c.extendedPrice, 0);
+
+  // Flag the line when the supplier doesn't have enough stock (buy-to-order parts are made on demand)
+  const partInventory = state.inventory?.parts.find(p => p.partId === partId);
+  const stock = partInventory ? {
+    quantityAvailable: partInventory.quantityAvailable,
+    locations: partInventory.locations,
+    insufficient: !partInventory.buyToOrder && quantity > partInventory.quantityAvailable,
+  } : undefined;
   
   return {
     productId: pricingData.productId,
@@ -518,10 +820,19 @@ export function buildLineItem(
     quantity,
     unitPrice,
     extendedPrice,
-    decorationMethod,
-    decorationLocation,
-    decorationColors,
+    imprints,
+    accessories,
     charges,
-    totalWithCharges: extendedPrice + chargesTotal,
+    totalWithCharges: extendedPrice + accessoriesTotal + chargesTotal,
+    stock,
+    imageUrl: state.media?.partImages[partId] || state.media?.primaryImageUrl,
+    pricingAsOf: state.pricingAsOf,
+    fobPoint: pricingData.fobPoints.find(f => f.fobId === pricingData.fobId),
+    currency: pricingData.currency,
+    priceType: pricingData.priceType,
+    listUnitPrice,
+    listExtendedPrice: listUnitPrice !== undefined ? listUnitPrice * quantity : undefined,
+    repeat: repeat || undefined,
+    repeatPoNumber: repeat ? selectedOptions.repeatPoNumber || parsedRequest.repeatPoNumber : undefined,
   };
 }
@@ -0,0 +1,114 @@
+import { DebugLogEntry } from '../types';
+import { getSuppliers } from './suppliers';
+import { randomUUID } from 'crypto';
+
+// How much of each trace is kept and returned to the browser:
+//   off     - nothing
+//   summary - operation names, timing and errors, without request/response payloads
+//   full    - everything, with credentials masked
+export type DebugLogLevel = 'off' | 'summary' | 'full';
+
+const LOG_LEVELS: DebugLogLevel[] = ['off', 'summary', 'full'];
+
+const MASK = '********';
+
+// Single-line notes (e.g. "Status: 200 OK") survive summary mode; payloads don't
+const SUMMARY_MAX_LENGTH = 200;
+
+// Per-request debug trace. Each API route creates one and passes it through the
+// SOAP and AI calls, so concurrent requests never see each other's entries.
+export interface TraceContext {
+  correlationId: string;
+  level: DebugLogLevel;
+  logs: DebugLogEntry[];
+}
+
+function parseLevel(value: string | null | undefined): DebugLogLevel | undefined {
+  const level = value?.trim().toLowerCase();
+  return LOG_LEVELS.find(l => l === level);
+}
+
+// DEBUG_LOG_LEVEL, defaulting to summary in production and full in development
+export function getDefaultLogLevel(): DebugLogLevel {
+  return parseLevel(process.env.DEBUG_LOG_LEVEL)
+    || (process.env.NODE_ENV === 'production' ? 'summary' : 'full');
+}
+
+// Reuse the caller's correlation id (e.g. an x-correlation-id header) when given
+export function createTrace(correlationId?: string | null, level: DebugLogLevel = getDefaultLogLevel()): TraceContext {
+  return {
+    correlationId: correlationId?.trim().slice(0, 100) || randomUUID(),
+    level,
+    logs: [],
+  };
+}
+
+// Trace for an API request. Admins can raise or lower the level per request with
+// x-debug-level, authorized by x-debug-token matching DEBUG_ADMIN_TOKEN.
+export function createRequestTrace(headers: Headers): TraceContext {
+  const requested = parseLevel(headers.get('x-debug-level'));
+  const adminToken = process.env.DEBUG_ADMIN_TOKEN;
+  const level = requested && adminToken && headers.get('x-debug-token') === adminToken
+    ? requested
+    : getDefaultLogLevel();
+  return createTrace(headers.get('x-correlation-id'), level);
+}
+
+// Credentials and configured secrets that must never appear in a log
+function getSecrets(): string[] {
+  const secrets = [
+    process.env.ANTHROPIC_API_KEY,
+    process.env.DEBUG_ADMIN_TOKEN,
+    process.env.SOAP_PROXY_TOKEN,
+    ...(process.env.DEBUG_LOG_SECRETS || '').split(','),
+    ...getSuppliers().flatMap(s => [s.credentials.username, s.credentials.password]),
+  ];
+  // Very short values would mask unrelated text
+  return secrets
+    .map(s => s?.trim())
+    .filter((s): s is string => Boolean(s && s.length >= 4));
+}
+
+// Mask <id>/<password> element values (any namespace prefix) and known secrets
+export function redact(text: string): string {
+  let result = text.replace(
+    /<((?:[\w.-]+:)?(?:id|password))(\s[^>]*)?>([^<]*)<\/\1>/gi,
+    (_match, name: string, attrs = '') => `<${name}${attrs}>${MASK}</${name}>`
+  );
+  for (const secret of getSecrets()) {
+    result = result.split(secret).join(MASK);
+  }
+  return result;
+}
+
+function summarize(text: string | undefined): string | undefined {
+  if (!text || text.includes('\n') || text.length > SUMMARY_MAX_LENGTH) return undefined;
+  return text;
+}
+
+export function addDebugLog(
+  trace: TraceContext,
+  operation: string,
+  request?: string,
+  response?: string,
+  error?: string,
+  details?: Pick<DebugLogEntry, 'attempt' | 'durationMs'>
+): void {
+  if (trace.level === 'off') return;
+
+  if (trace.level === 'summary') {
+    request = summarize(request);
+    response = summarize(response);
+  }
+
+  trace.logs.push({
+    timestamp: new Date().toISOString(),
+    correlationId: trace.correlationId,
+    operation,
+    // Redact before truncating so a secret can't be cut in half and slip through
+    request: request && redact(request).substring(0, 5000),
+    response: response && redact(response).substring(0, 10000), // Increased limit to see full response
+    error: error && redact(error),
+    ...details,
+  });
+}
@@ -0,0 +1,111 @@
+import { ApiError, ApiErrorCode, ServiceMessage } from '../types';
+
+// Base class for errors from a PromoStandards supplier or its configuration
+export class PromoStandardsError extends Error {
+  public supplierId?: string;
+
+  constructor(public code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'PromoStandardsError';
+  }
+}
+
+// PromoStandards standard error codes
+const AUTH_ERROR_CODES = ['100', '104', '105', '110'];
+const NOT_FOUND_ERROR_CODES = ['130', '135', '140', '160'];
+
+function classifyDescription(description: string): ApiErrorCode | null {
+  if (/auth|credential|password|unauthori[sz]ed|access denied|invalid (user|id|login)/i.test(description)) {
+    return 'AUTH_FAILED';
+  }
+  if (/(product|part)\s*(id)?\s*(was\s+)?(not found|does not exist|is invalid)|invalid product|no results/i.test(description)) {
+    return 'PRODUCT_NOT_FOUND';
+  }
+  return null;
+}
+
+// SOAP Fault in the response body
+export class SoapFaultError extends PromoStandardsError {
+  constructor(public faultCode: string, public faultString: string) {
+    super(classifyDescription(faultString) || 'SOAP_FAULT', `SOAP Fault ${faultCode}: ${faultString}`);
+    this.name = 'SoapFaultError';
+  }
+}
+
+// ServiceMessageArray / ErrorMessage with Error severity
+export class ServiceMessageError extends PromoStandardsError {
+  constructor(public messages: ServiceMessage[]) {
+    super(
+      ServiceMessageError.classify(messages),
+      messages.map(m => `${m.code}: ${m.description}`).join('; ')
+    );
+    this.name = 'ServiceMessageError';
+  }
+
+  private static classify(messages: ServiceMessage[]): ApiErrorCode {
+    for (const message of messages) {
+      if (AUTH_ERROR_CODES.includes(message.code)) return 'AUTH_FAILED';
+      if (NOT_FOUND_ERROR_CODES.includes(message.code)) return 'PRODUCT_NOT_FOUND';
+      const byDescription = classifyDescription(message.description);
+      if (byDescription) return byDescription;
+    }
+    return 'SERVICE_ERROR';
+  }
+}
+
+// Non-2xx HTTP status without a SOAP Fault body
+export class HttpStatusError extends PromoStandardsError {
+  constructor(public status: number, statusText: string) {
+    super(status === 401 || status === 403 ? 'AUTH_FAILED' : 'HTTP_ERROR', `HTTP ${status} ${statusText}`.trim());
+    this.name = 'HttpStatusError';
+  }
+}
+
+export class TimeoutError extends PromoStandardsError {
+  constructor(operation: string, public timeoutMs: number) {
+    super('TIMEOUT', `${operation} timed out after ${timeoutMs / 1000}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class NetworkError extends PromoStandardsError {
+  constructor(operation: string, cause: unknown) {
+    super('NETWORK_ERROR', `${operation} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'NetworkError';
+  }
+}
+
+// Supplier calls are short-circuited after repeated transport failures
+export class CircuitOpenError extends PromoStandardsError {
+  constructor(supplierName: string, public retryAt: Date) {
+    super('SUPPLIER_UNAVAILABLE', `${supplierName} is temporarily unavailable after repeated failures; retrying after ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Response body that isn't XML or doesn't have the expected SOAP structure
+export class InvalidResponseError extends PromoStandardsError {
+  constructor(message: string) {
+    super('INVALID_RESPONSE', message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// Convert any thrown value into the error shape returned by the API routes
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof PromoStandardsError) {
+    return {
+      code: error.code,
+      message: error.message,
+      supplierId: error.supplierId,
+      faultCode: error instanceof SoapFaultError ? error.faultCode
+        : error instanceof ServiceMessageError ? error.messages[0]?.code
+        : undefined,
+      httpStatus: error instanceof HttpStatusError ? error.status : undefined,
+    };
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+  };
+}
@@ -0,0 +1,320 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { PromoStandardsService, FobPoint, PartPrice, ChargePrice } from '../types';
+import { parseXml, XmlElement, findChild, childText, findPath } from './xml';
+import { buildOperationEnvelope, buildSoapFaultEnvelope, SoapFields } from './soap-envelope';
+
+// Local mock PromoStandards supplier for PPC, Product Data and Inventory.
+// Responses are built from JSON product definitions (see mock/products), so edge
+// cases real suppliers rarely return - no FOB points, decorations in several
+// locations, Order charges, SOAP faults - can be exercised end to end.
+
+const PRODUCTS_DIR = process.env.MOCK_SUPPLIER_DIR || join(process.cwd(), 'mock', 'products');
+
+export const MOCK_SERVICES: PromoStandardsService[] = ['ppc', 'productData', 'inventory'];
+
+export interface MockChargePrice extends Partial<ChargePrice> {
+  price: number;
+}
+
+export interface MockCharge {
+  chargeId: string;
+  chargeName: string;
+  chargeDescription?: string;
+  chargeType: 'Setup' | 'Run' | 'Order';
+  priceArray: MockChargePrice[];
+}
+
+export interface MockDecoration {
+  decorationId: string;
+  decorationName: string;
+  decorationGeometry?: string;
+  decorationHeight?: number;
+  decorationWidth?: number;
+  decorationUom?: string;
+  decorationUnitsIncluded?: number;
+  decorationUnitsMax?: number;
+  defaultDecoration?: boolean;
+  charges: MockCharge[];
+}
+
+export interface MockLocation {
+  locationId: string;
+  locationName: string;
+  defaultLocation?: boolean;
+  decorations: MockDecoration[];
+}
+
+export interface MockPart {
+  partId: string;
+  partDescription: string;
+  partGroup?: number;
+  partGroupDescription?: string;
+  ratio?: number;
+  colorName?: string;
+  hex?: string;
+  leadTime?: number;
+  priceBreaks: Array<Omit<PartPrice, 'priceUom'> & { priceUom?: string }>;
+  quantityAvailable?: number;
+}
+
+export interface MockFault {
+  operation?: string; // SOAPAction-style name, e.g. "getConfigurationAndPricing"; omitted = every operation
+  faultCode: string;
+  faultString: string;
+}
+
+export interface MockProduct {
+  productId: string;
+  productName: string;
+  description?: string;
+  brand?: string;
+  currency?: string;
+  fobPoints: FobPoint[];
+  parts: MockPart[];
+  locations: MockLocation[];
+  faults?: MockFault[];
+}
+
+export interface MockSoapResponse {
+  status: number;
+  body: string;
+}
+
+// Request element -> SOAPAction-style operation name, per service
+const OPERATIONS: Partial<Record<PromoStandardsService, Record<string, string>>> = {
+  ppc: {
+    GetFobPointsRequest: 'getFobPoints',
+    GetConfigurationAndPricingRequest: 'getConfigurationAndPricing',
+  },
+  productData: {
+    GetProductRequest: 'getProduct',
+  },
+  inventory: {
+    GetInventoryLevelsRequest: 'getInventoryLevels',
+  },
+};
+
+// Definitions are re-read on every request so edits apply without a restart
+export function loadMockProducts(): MockProduct[] {
+  if (!existsSync(PRODUCTS_DIR)) return [];
+
+  const products: MockProduct[] = [];
+  for (const file of readdirSync(PRODUCTS_DIR).filter(f => f.endsWith('.json')).sort()) {
+    try {
+      products.push(JSON.parse(readFileSync(join(PRODUCTS_DIR, file), 'utf-8')));
+    } catch (error) {
+      console.error(`Error loading mock product ${file}:`, error);
+    }
+  }
+  return products;
+}
+
+function fault(faultCode: string, faultString: string): MockSoapResponse {
+  // SOAP 1.1 reports faults with HTTP 500
+  return { status: 500, body: buildSoapFaultEnvelope(faultCode, faultString) };
+}
+
+// "Product not found" the way each WSDL generation reports it
+function productNotFound(version: string, productId: string): SoapFields {
+  const message = { code: '130', description: `Product Id ${productId} not found` };
+  return version.startsWith('1.')
+    ? { ErrorMessage: message }
+    : { ServiceMessageArray: { ServiceMessage: { ...message, severity: 'Error' } } };
+}
+
+function quantity(value: number): SoapFields {
+  return { Quantity: { uom: 'EA', value } };
+}
+
+function fobPointFields(product: MockProduct, fob: FobPoint): SoapFields {
+  return {
+    fobId: fob.fobId,
+    fobCity: fob.city,
+    fobState: fob.state,
+    fobPostalCode: fob.postalCode,
+    fobCountry: fob.country,
+    CurrencySupportedArray: { CurrencySupported: { currency: product.currency || 'USD' } },
+    ProductArray: { Product: { productId: product.productId } },
+  };
+}
+
+function chargeFields(charge: MockCharge): SoapFields {
+  return {
+    chargeId: charge.chargeId,
+    chargeName: charge.chargeName,
+    chargeDescription: charge.chargeDescription || charge.chargeName,
+    chargeType: charge.chargeType,
+    ChargePriceArray: {
+      ChargePrice: charge.priceArray.map(row => ({
+        xMinQty: row.xMinQty ?? 1,
+        xUom: row.xUom || 'EA',
+        yMinQty: row.yMinQty ?? 1,
+        yUom: row.yUom || 'Colors',
+        price: row.price,
+        repeatPrice: row.repeatPrice ?? row.price,
+      })),
+    },
+  };
+}
+
+function decorationFields(decoration: MockDecoration): SoapFields {
+  return {
+    decorationId: decoration.decorationId,
+    decorationName: decoration.decorationName,
+    decorationGeometry: decoration.decorationGeometry || 'Rectangle',
+    decorationHeight: decoration.decorationHeight ?? 1,
+    decorationWidth: decoration.decorationWidth ?? 1,
+    decorationUom: decoration.decorationUom || 'Inches',
+    decorationUnitsIncluded: decoration.decorationUnitsIncluded ?? 1,
+    decorationUnitsMax: decoration.decorationUnitsMax ?? 1,
+    defaultDecoration: decoration.defaultDecoration ?? false,
+    ChargeArray: decoration.charges.length > 0
+      ? { Charge: decoration.charges.map(chargeFields) }
+      : undefined,
+  };
+}
+
+function configurationResponse(product: MockProduct, request: XmlElement): SoapFields {
+  const fobId = childText(request, 'fobId');
+  const fob = product.fobPoints.find(f => f.fobId === fobId);
+  // Blank quotes carry no decoration locations
+  const decorated = childText(request, 'configurationType') !== 'Blank';
+
+  return {
+    Configuration: {
+      PartArray: {
+        Part: product.parts.map(part => ({
+          partId: part.partId,
+          partDescription: part.partDescription,
+          PartPriceArray: {
+            PartPrice: part.priceBreaks.map(priceBreak => ({
+              minQuantity: priceBreak.minQuantity,
+              price: priceBreak.price,
+              priceUom: priceBreak.priceUom || 'EA',
+            })),
+          },
+          partGroup: part.partGroup ?? 1,
+          partGroupDescription: part.partGroupDescription,
+          ratio: part.ratio,
+        })),
+      },
+      LocationArray: decorated && product.locations.length > 0 ? {
+        Location: product.locations.map(location => ({
+          locationId: location.locationId,
+          locationName: location.locationName,
+          DecorationArray: { Decoration: location.decorations.map(decorationFields) },
+          defaultLocation: location.defaultLocation ?? false,
+        })),
+      } : undefined,
+      productId: product.productId,
+      currency: childText(request, 'currency') || product.currency || 'USD',
+      FobArray: fob ? { Fob: { fobId: fob.fobId, fobPostalCode: fob.postalCode } } : undefined,
+      priceType: childText(request, 'priceType') || 'Net',
+    },
+  };
+}
+
+function productDataResponse(product: MockProduct): SoapFields {
+  return {
+    Product: {
+      productId: product.productId,
+      productName: product.productName,
+      description: product.description,
+      productBrand: product.brand,
+      ProductPartArray: {
+        ProductPart: product.parts.map(part => ({
+          partId: part.partId,
+          description: part.partDescription,
+          ColorArray: part.colorName ? { Color: { colorName: part.colorName, hex: part.hex } } : undefined,
+          leadTime: part.leadTime,
+        })),
+      },
+      FobPointArray: product.fobPoints.length > 0
+        ? { FobPoint: product.fobPoints.map(fob => fobPointFields(product, fob)) }
+        : undefined,
+    },
+  };
+}
+
+function inventoryResponse(product: MockProduct, request: XmlElement): SoapFields {
+  const requested = findPath(request, ['Filter', 'partIdArray', 'partId']).map(p => p.text.trim());
+  const parts = product.parts.filter(p => requested.length === 0 || requested.includes(p.partId));
+
+  return {
+    Inventory: {
+      productId: product.productId,
+      PartInventoryArray: {
+        PartInventory: parts.map(part => ({
+          partId: part.partId,
+          mainPart: (part.partGroup ?? 1) === 1,
+          partColor: part.colorName,
+          partDescription: part.partDescription,
+          quantityAvailable: quantity(part.quantityAvailable ?? 0),
+          manufacturedItem: false,
+          buyToOrder: false,
+          InventoryLocationArray: {
+            InventoryLocation: product.fobPoints.slice(0, 1).map(fob => ({
+              inventoryLocationId: fob.fobId,
+              inventoryLocationName: fob.city || fob.fobId,
+              postalCode: fob.postalCode,
+              country: fob.country,
+              inventoryLocationQuantity: quantity(part.quantityAvailable ?? 0),
+            })),
+          },
+        })),
+      },
+    },
+  };
+}
+
+// Answer one SOAP request to the mock's endpoint for a service
+export function handleMockSoapRequest(service: PromoStandardsService, xml: string): MockSoapResponse {
+  let request: XmlElement | undefined;
+  try {
+    request = findChild(parseXml(xml), 'Body')?.children[0];
+  } catch (error) {
+    return fault('soap:Client', `Request is not valid XML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const operation = request && OPERATIONS[service]?.[request.name];
+  if (!request || !operation) {
+    return fault('soap:Client', `Operation ${request?.name || '(none)'} is not supported by the mock ${service} service`);
+  }
+
+  const version = childText(request, 'wsVersion') || '1.0.0';
+  const responseName = request.name.replace(/Request$/, 'Response');
+  const productId = childText(request, 'productId') || '';
+  const products = loadMockProducts();
+  const respond = (fields: SoapFields): MockSoapResponse => ({
+    status: 200,
+    body: buildOperationEnvelope(service, version, responseName, fields),
+  });
+
+  // GetFobPoints may be asked without a product; an empty array is a valid answer
+  if (operation === 'getFobPoints') {
+    const matching = products.filter(p => !productId || p.productId === productId);
+    const configured = matching.flatMap(p => p.faults || []).find(f => !f.operation || f.operation === operation);
+    if (configured) return fault(configured.faultCode, configured.faultString);
+    return respond({
+      FobPointArray: {
+        FobPoint: matching.flatMap(p => p.fobPoints.map(fob => fobPointFields(p, fob))),
+      },
+    });
+  }
+
+  const product = products.find(p => p.productId === productId);
+  if (!product) return respond(productNotFound(version, productId));
+
+  const configured = product.faults?.find(f => !f.operation || f.operation === operation);
+  if (configured) return fault(configured.faultCode, configured.faultString);
+
+  switch (operation) {
+    case 'getConfigurationAndPricing':
+      return respond(configurationResponse(product, request));
+    case 'getProduct':
+      return respond(productDataResponse(product));
+    default:
+      return respond(inventoryResponse(product, request));
+  }
+}
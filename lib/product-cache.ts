@@ -0,0 +1,141 @@
+import { PricingConfiguration, PricingOptions, ProductData, Supplier } from '../types';
+import { getConfigurationAndPricing, getProductData } from './promostandards';
+import { addDebugLog, TraceContext } from './debug-log';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+
+// Disk-backed cache of pricing + product data so repeat quotes skip the SOAP round trips
+// (in production, use a shared store)
+const CACHE_DIR = process.env.PRICING_CACHE_DIR || join(process.cwd(), 'data', 'pricing-cache');
+
+// PRICING_CACHE_TTL_HOURS=0 disables the cache
+const DEFAULT_TTL_HOURS = 24;
+
+export interface CachedProduct {
+  supplierId: string;
+  productId: string;
+  fobId: string; // "default" when the supplier's FOB point was looked up for us
+  currency: string;
+  priceType: string;
+  configurationType: string;
+  pricingData: PricingConfiguration;
+  productData: ProductData;
+  cachedAt: string;
+}
+
+export interface ProductLoadResult {
+  pricingData: PricingConfiguration;
+  productData: ProductData;
+  asOf: string; // When the data was fetched from the supplier
+  fromCache: boolean;
+}
+
+function getTtlMs(): number {
+  const hours = parseFloat(process.env.PRICING_CACHE_TTL_HOURS || '');
+  return (Number.isNaN(hours) ? DEFAULT_TTL_HOURS : hours) * 60 * 60 * 1000;
+}
+
+// Keep key parts filename-safe; "~" separates them
+function safePart(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+function productPrefix(supplierId: string, productId: string): string {
+  return `${safePart(supplierId)}~${safePart(productId)}~`;
+}
+
+function cacheFile(supplierId: string, productId: string, options: PricingOptions): string {
+  const name = [
+    options.fobId || 'default',
+    options.currency || 'USD',
+    options.priceType || 'Net',
+    options.configurationType || 'Decorated',
+  ].map(safePart).join('~');
+  return join(CACHE_DIR, `${productPrefix(supplierId, productId)}${name}.json`);
+}
+
+function readEntry(filePath: string): CachedProduct | null {
+  try {
+    if (existsSync(filePath)) {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    }
+  } catch (error) {
+    console.error(`Error loading ${filePath}:`, error);
+  }
+  return null;
+}
+
+function writeEntry(filePath: string, entry: CachedProduct): void {
+  try {
+    if (!existsSync(CACHE_DIR)) {
+      mkdirSync(CACHE_DIR, { recursive: true });
+    }
+    writeFileSync(filePath, JSON.stringify(entry, null, 2));
+  } catch (error) {
+    console.error(`Error saving ${filePath}:`, error);
+  }
+}
+
+// Get pricing and product data, from the cache when fresh enough
+export async function loadProductPricing(
+  trace: TraceContext,
+  supplier: Supplier,
+  productId: string,
+  options: PricingOptions = {},
+  forceRefresh = false
+): Promise<ProductLoadResult> {
+  const ttlMs = getTtlMs();
+  const filePath = cacheFile(supplier.id, productId, options);
+
+  if (!forceRefresh && ttlMs > 0) {
+    const cached = readEntry(filePath);
+    if (cached && Date.now() - new Date(cached.cachedAt).getTime() < ttlMs) {
+      addDebugLog(trace, 'Pricing Cache Hit', `Supplier: ${supplier.id}\nProduct: ${productId}\nCached at: ${cached.cachedAt}`);
+      return {
+        // Entries cached before FOB points were kept have no fobPoints
+        pricingData: { ...cached.pricingData, fobPoints: cached.pricingData.fobPoints || [] },
+        productData: cached.productData,
+        asOf: cached.cachedAt,
+        fromCache: true,
+      };
+    }
+  }
+
+  const pricingData = await getConfigurationAndPricing(trace, supplier, productId, options);
+  const productData = await getProductData(trace, supplier, productId);
+  const cachedAt = new Date().toISOString();
+
+  if (ttlMs > 0) {
+    writeEntry(filePath, {
+      supplierId: supplier.id,
+      productId,
+      fobId: options.fobId || 'default',
+      currency: pricingData.currency,
+      priceType: pricingData.priceType,
+      configurationType: pricingData.configurationType,
+      pricingData,
+      productData,
+      cachedAt,
+    });
+  }
+
+  return { pricingData, productData, asOf: cachedAt, fromCache: false };
+}
+
+// Drop every cached FOB/currency/price type/configuration combination for one product
+export function invalidateProduct(supplierId: string, productId: string): number {
+  const prefix = productPrefix(supplierId, productId);
+  let removed = 0;
+  try {
+    if (!existsSync(CACHE_DIR)) return 0;
+    for (const file of readdirSync(CACHE_DIR)) {
+      if (file.startsWith(prefix) && file.endsWith('.json')) {
+        unlinkSync(join(CACHE_DIR, file));
+        removed++;
+      }
+    }
+  } catch (error) {
+    console.error(`Error clearing cache for ${supplierId}/${productId}:`, error);
+  }
+  return removed;
+}
@@ -1,266 +1,338 @@
 import {
   PricingConfiguration,
+  PricingOptions,
+  FobPoint,
   Part,
   Location,
   Decoration,
   Charge,
   ChargePrice,
   PartPrice,
-  DebugLogEntry,
+  Supplier,
+  SupplierEndpoint,
+  InventoryLevels,
+  PartInventory,
+  InventoryLocation,
+  OrderLineItem,
+  PurchaseOrderDetails,
+  PurchaseOrderResult,
+  OrderStatus,
+  OrderStatusDetail,
+  OrderShipment,
+  ShipmentPackage,
+  ProductData,
+  ProductPart,
+  ProductDimensions,
+  ProductMedia,
+  MediaImage,
+  ServiceMessage,
 } from "../types";
+import { getSupplierEndpoint } from "./suppliers";
+import { addDebugLog, redact, TraceContext } from "./debug-log";
+import { parseXml, XmlElement, findChild, findChildren, childText, findPath } from "./xml";
+import {
+  PromoStandardsError,
+  SoapFaultError,
+  ServiceMessageError,
+  InvalidResponseError,
+  HttpStatusError,
+} from "./errors";
+import { postSoap } from "./soap-transport";
+import { buildSoapEnvelope, SoapFields } from "./soap-envelope";
+
+// POST a SOAP envelope to a supplier endpoint and return the operation response element.
+// Every failure is thrown as a PromoStandardsError subclass tagged with the supplier.
+async function callSoapOperation(
+  trace: TraceContext,
+  supplier: Supplier,
+  endpoint: SupplierEndpoint,
+  soapAction: string,
+  responseName: string,
+  soapEnvelope: string
+): Promise<XmlElement> {
+  const label = soapAction.charAt(0).toUpperCase() + soapAction.slice(1);
+
+  addDebugLog(trace, `${label} Request`, `Supplier: ${supplier.name}\nURL: ${endpoint.url}\n\n${soapEnvelope}`);
 
-const HIT_CREDENTIALS = {
-  username: "extendtech",
-  password: "e8e1d66dfeefdf2f0f89f013dde032b9",
-};
+  try {
+    const response = await postSoap(trace, supplier, endpoint, soapAction, soapEnvelope, label);
+    addDebugLog(trace, `${label} Response`, undefined, response.body);
+
+    // SOAP Faults usually arrive with HTTP 500, so check the body before the status
+    try {
+      return parseSoapBody(response.body, responseName);
+    } catch (error) {
+      if (!response.ok && error instanceof InvalidResponseError) {
+        throw new HttpStatusError(response.status, response.statusText);
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof PromoStandardsError) {
+      error.supplierId = supplier.id;
+    }
+    addDebugLog(trace, `${label} Error`, undefined, undefined, String(error));
+    throw error;
+  }
+}
 
-const HIT_ENDPOINTS = {
-  productData: "https://ppds.hitpromo.net/productData?ws=1",
-  ppc: "https://ppds.hitpromo.net/pricingAndConfiguration?ws=1",
-};
+const SOAP_ENVELOPE_NAMESPACES = [
+  "http://schemas.xmlsoap.org/soap/envelope/", // SOAP 1.1
+  "http://www.w3.org/2003/05/soap-envelope", // SOAP 1.2
+];
 
-// Global debug logs array - reset per request
-let debugLogs: DebugLogEntry[] = [];
+// Parse a SOAP response and return the operation response element inside Body.
+// Throws SoapFaultError for a Fault and ServiceMessageError for Error-severity messages.
+function parseSoapBody(xml: string, responseName: string): XmlElement {
+  let envelope: XmlElement;
+  try {
+    envelope = parseXml(xml);
+  } catch (error) {
+    throw new InvalidResponseError(`Response is not valid XML: ${error instanceof Error ? error.message : String(error)}`);
+  }
 
-export function getDebugLogs(): DebugLogEntry[] {
-  return debugLogs;
-}
+  if (envelope.name !== "Envelope" || !SOAP_ENVELOPE_NAMESPACES.includes(envelope.namespace || "")) {
+    throw new InvalidResponseError(`Expected a SOAP Envelope but got <${envelope.name}>`);
+  }
 
-export function clearDebugLogs(): void {
-  debugLogs = [];
-}
+  const body = findChild(envelope, "Body", envelope.namespace);
+  if (!body) {
+    throw new InvalidResponseError("SOAP Envelope has no Body");
+  }
 
-function addDebugLog(operation: string, request?: string, response?: string, error?: string): void {
-  debugLogs.push({
-    timestamp: new Date().toISOString(),
-    operation,
-    request: request?.substring(0, 5000),
-    response: response?.substring(0, 10000), // Increased limit to see full response
-    error,
-  });
-}
+  const fault = findChild(body, "Fault", envelope.namespace);
+  if (fault) {
+    throw parseSoapFault(fault);
+  }
 
-// Get FOB points for a product (required before getting configuration)
-export async function getFobPoints(productId: string): Promise<string | null> {
-  const soapEnvelope = `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Body>
-    <GetFobPointsRequest xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/">
-      <wsVersion xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">1.0.0</wsVersion>
-      <id xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.username}</id>
-      <password xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.password}</password>
-      <productId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${productId}</productId>
-      <localizationCountry xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">US</localizationCountry>
-      <localizationLanguage xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">en</localizationLanguage>
-    </GetFobPointsRequest>
-  </soap:Body>
-</soap:Envelope>`;
-
-  addDebugLog('GetFobPoints Request', `URL: ${HIT_ENDPOINTS.ppc}\n\n${soapEnvelope}`);
+  const response = findChild(body, responseName);
+  if (!response) {
+    const found = body.children.map(c => c.name).join(", ") || "nothing";
+    throw new InvalidResponseError(`Expected ${responseName} in SOAP Body but found ${found}`);
+  }
 
-  try {
-    const headers: Record<string, string> = {
-      "Content-Type": "text/xml; charset=utf-8",
-      "SOAPAction": '"getFobPoints"',  // Quotes required around action name
-    };
+  const errors = parseServiceMessages(response).filter(m => m.severity === "Error");
+  if (errors.length > 0) {
+    throw new ServiceMessageError(errors);
+  }
 
-    addDebugLog('GetFobPoints Headers', JSON.stringify(headers, null, 2));
+  return response;
+}
 
-    const response = await fetch(HIT_ENDPOINTS.ppc, {
-      method: "POST",
-      headers,
-      body: soapEnvelope,
-    });
+function parseSoapFault(fault: XmlElement): SoapFaultError {
+  // SOAP 1.1: faultcode/faultstring, SOAP 1.2: Code/Value and Reason/Text
+  const faultCode =
+    childText(fault, "faultcode") ||
+    childText(findChild(fault, "Code"), "Value") ||
+    "Unknown";
+  const faultString =
+    childText(fault, "faultstring") ||
+    childText(findChild(fault, "Reason"), "Text") ||
+    "No fault description";
+  return new SoapFaultError(faultCode, faultString);
+}
 
-    addDebugLog('GetFobPoints Fetch Status', undefined, `Status: ${response.status} ${response.statusText}`);
+// Collect ServiceMessageArray entries (newer WSDLs) and ErrorMessage (1.0.0 WSDLs)
+function parseServiceMessages(response: XmlElement): ServiceMessage[] {
+  const messages: ServiceMessage[] = [];
 
-    const xmlText = await response.text();
+  for (const message of findPath(response, ["ServiceMessageArray", "ServiceMessage"])) {
+    const severity = childText(message, "severity");
+    messages.push({
+      code: childText(message, "code") || "",
+      description: childText(message, "description") || "",
+      severity: severity === "Warning" || severity === "Information" ? severity : "Error",
+    });
+  }
 
-    // Find the fobId for this specific product
-    const fobId = findFobIdForProduct(xmlText, productId);
+  for (const message of findChildren(response, "ErrorMessage")) {
+    messages.push({
+      code: childText(message, "code") || "",
+      description: childText(message, "description") || "",
+      severity: "Error",
+    });
+  }
 
-    addDebugLog(
-      'GetFobPoints Response',
-      undefined,
-      xmlText,
-      fobId ? `Found fobId: ${fobId}` : 'No fobId found for this product'
-    );
+  return messages;
+}
 
-    return fobId;
-  } catch (error) {
-    addDebugLog('GetFobPoints Error', undefined, undefined, String(error));
-    return null;
-  }
+function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const num = parseFloat(value);
+  return Number.isNaN(num) ? fallback : num;
 }
 
-// Simple XML parser helpers
-function extractValue(xml: string, tag: string): string | undefined {
-  // Try with namespace prefix first (ns1:tag, ns2:tag, etc.)
-  let regex = new RegExp(`<[^>]*:${tag}[^>]*>([^<]*)<`, "i");
-  let match = xml.match(regex);
-  if (match) return match[1].trim();
-
-  // Try without namespace prefix
-  regex = new RegExp(`<${tag}[^>]*>([^<]*)<`, "i");
-  match = xml.match(regex);
-  return match ? match[1].trim() : undefined;
+function parseInteger(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const num = parseInt(value, 10);
+  return Number.isNaN(num) ? fallback : num;
 }
 
-// Find FOB ID for a specific product from the FobPointArray
-function findFobIdForProduct(xml: string, productId: string): string | null {
-  // Extract all FobPoint blocks
-  const fobPointRegex = /<[^>]*:FobPoint[^>]*>([\s\S]*?)<\/[^>]*:FobPoint>/gi;
-  let match;
-
-  while ((match = fobPointRegex.exec(xml)) !== null) {
-    const fobPointBlock = match[1];
-
-    // Check if this FobPoint contains our productId
-    const productIdRegex = new RegExp(`<[^>]*:productId[^>]*>${productId}<`, "i");
-    if (productIdRegex.test(fobPointBlock)) {
-      // Found the right FobPoint, extract fobId
-      const fobIdMatch = fobPointBlock.match(/<[^>]*:fobId[^>]*>([^<]*)</i);
-      if (fobIdMatch) {
-        return fobIdMatch[1].trim();
-      }
-    }
-  }
+// Get the FOB points (ship-from warehouses) for a product - pricing is quoted per point
+export async function getFobPoints(trace: TraceContext, supplier: Supplier, productId: string): Promise<FobPoint[]> {
+  const endpoint = getSupplierEndpoint(supplier, "ppc");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "ppc",
+    version: endpoint.version,
+    operation: "GetFobPointsRequest",
+    credentials: supplier.credentials,
+    fields: {
+      productId,
+      localizationCountry: "US",
+      localizationLanguage: "en",
+    },
+  });
 
-  // If no specific match, just return the first fobId found
-  const firstFobId = xml.match(/<[^>]*:fobId[^>]*>([^<]*)</i);
-  return firstFobId ? firstFobId[1].trim() : null;
+  const response = await callSoapOperation(trace, supplier, endpoint, "getFobPoints", "GetFobPointsResponse", soapEnvelope);
+
+  const fobPoints = findFobPointsForProduct(response, productId);
+  addDebugLog(
+    trace,
+    'GetFobPoints Result',
+    undefined,
+    undefined,
+    fobPoints.length > 0
+      ? `Found FOB points: ${fobPoints.map(f => f.fobId).join(", ")}`
+      : 'No FOB points found for this product'
+  );
+
+  if (fobPoints.length === 0) {
+    const error = new PromoStandardsError("PRODUCT_NOT_FOUND", `${supplier.name} has no FOB points for product ${productId}`);
+    error.supplierId = supplier.id;
+    throw error;
+  }
+  return fobPoints;
 }
 
-function extractAllBlocks(xml: string, tag: string): string[] {
-  const blocks: string[] = [];
-
-  // Try multiple patterns to handle various namespace formats
-  const patterns = [
-    // Pattern 1: with namespace prefix (ns1:Part, ns2:Part, etc.)
-    new RegExp(`<[^>/]*:${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/[^>]*:${tag}>`, "gi"),
-    // Pattern 2: without namespace prefix (<Part>, <Part attr="val">)
-    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`, "gi"),
-  ];
-
-  for (const regex of patterns) {
-    let match;
-    while ((match = regex.exec(xml)) !== null) {
-      // Avoid duplicates
-      if (!blocks.includes(match[1])) {
-        blocks.push(match[1]);
-      }
-    }
-  }
+// FobPoint elements look the same in PPC and Product Data responses
+function parseFobPoint(fobPoint: XmlElement): FobPoint | null {
+  const fobId = childText(fobPoint, "fobId");
+  if (!fobId) return null;
+  return {
+    fobId,
+    city: childText(fobPoint, "fobCity"),
+    state: childText(fobPoint, "fobState"),
+    postalCode: childText(fobPoint, "fobPostalCode"),
+    country: childText(fobPoint, "fobCountry"),
+  };
+}
 
-  return blocks;
+// FOB points whose ProductArray lists the product. Suppliers that don't list
+// products per point ship everything from every point.
+function findFobPointsForProduct(response: XmlElement, productId: string): FobPoint[] {
+  const fobPoints = findPath(response, ["FobPointArray", "FobPoint"]);
+
+  const listing = fobPoints.filter(fobPoint =>
+    findPath(fobPoint, ["ProductArray", "Product"]).some(p => childText(p, "productId") === productId)
+  );
+  const candidates = listing.length > 0
+    ? listing
+    : fobPoints.filter(fobPoint => !findChild(fobPoint, "ProductArray"));
+
+  return candidates
+    .map(parseFobPoint)
+    .filter((fob): fob is FobPoint => fob !== null);
 }
 
 export async function getConfigurationAndPricing(
-  productId: string
+  trace: TraceContext,
+  supplier: Supplier,
+  productId: string,
+  options: PricingOptions = {}
 ): Promise<PricingConfiguration> {
-  // First, get FOB points for this product
-  const fobId = await getFobPoints(productId);
+  const endpoint = getSupplierEndpoint(supplier, "ppc");
+  const currency = options.currency || "USD";
+  const priceType = options.priceType || "Net";
+  const configurationType = options.configurationType || "Decorated";
+
+  // Without an explicit FOB point, price the first one the product ships from
+  const fobPoints = await getFobPoints(trace, supplier, productId);
+  const fobId = options.fobId || fobPoints[0].fobId;
+  if (!fobPoints.some(f => f.fobId === fobId)) {
+    const error = new PromoStandardsError("INVALID_REQUEST", `${supplier.name} does not ship product ${productId} from FOB point ${fobId}`);
+    error.supplierId = supplier.id;
+    throw error;
+  }
   console.log('Using FOB ID:', fobId);
 
-  if (!fobId) {
-    console.error('No FOB ID found for product:', productId);
-    // Return empty configuration if no FOB found
-    return {
+  const soapEnvelope = buildSoapEnvelope({
+    service: "ppc",
+    version: endpoint.version,
+    operation: "GetConfigurationAndPricingRequest",
+    credentials: supplier.credentials,
+    fields: {
       productId,
-      currency: "USD",
-      parts: [],
-      locations: [],
-    };
-  }
-
-  const soapEnvelope = `<?xml version="1.0" encoding="UTF-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
-  <soap:Body>
-    <GetConfigurationAndPricingRequest xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/">
-      <wsVersion xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">1.0.0</wsVersion>
-      <id xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.username}</id>
-      <password xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${HIT_CREDENTIALS.password}</password>
-      <productId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${productId}</productId>
-      <currency xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">USD</currency>
-      <fobId xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">${fobId}</fobId>
-      <priceType xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">Net</priceType>
-      <localizationCountry xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">US</localizationCountry>
-      <localizationLanguage xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">en</localizationLanguage>
-      <configurationType xmlns="http://www.promostandards.org/WSDL/PricingAndConfiguration/1.0.0/SharedObjects/">Decorated</configurationType>
-    </GetConfigurationAndPricingRequest>
-  </soap:Body>
-</soap:Envelope>`;
-
-  addDebugLog('GetConfigurationAndPricing Request', soapEnvelope);
-
-  try {
-    const response = await fetch(HIT_ENDPOINTS.ppc, {
-      method: "POST",
-      headers: {
-        "Content-Type": "text/xml; charset=utf-8",
-        "SOAPAction": '"getConfigurationAndPricing"',  // Quotes required
-      },
-      body: soapEnvelope,
-    });
-
-    addDebugLog('GetConfigurationAndPricing Fetch Status', undefined, `Status: ${response.status} ${response.statusText}`);
+      currency,
+      fobId,
+      priceType,
+      localizationCountry: "US",
+      localizationLanguage: "en",
+      configurationType,
+    },
+  });
 
-    const xmlText = await response.text();
-    const result = parseConfigurationResponse(xmlText, productId);
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "getConfigurationAndPricing",
+    "GetConfigurationAndPricingResponse",
+    soapEnvelope
+  );
+  const result: PricingConfiguration = {
+    ...parseConfigurationResponse(response, productId),
+    fobId,
+    fobPoints,
+    priceType,
+    configurationType,
+  };
 
+  if (result.parts.length === 0) {
     addDebugLog(
-      'GetConfigurationAndPricing Response',
+      trace,
+      'GetConfigurationAndPricing Result',
       undefined,
-      xmlText,
-      result.parts.length === 0 ? `No parts found. Locations: ${result.locations.length}` : undefined
+      undefined,
+      `No parts found. Locations: ${result.locations.length}`
     );
-
-    return result;
-  } catch (error) {
-    addDebugLog('GetConfigurationAndPricing Error', undefined, undefined, String(error));
-    return {
-      productId,
-      currency: "USD",
-      parts: [],
-      locations: [],
-    };
+    const error = new PromoStandardsError("PRODUCT_NOT_FOUND", `${supplier.name} returned no parts for product ${productId}`);
+    error.supplierId = supplier.id;
+    throw error;
   }
+
+  return result;
 }
 
 function parseConfigurationResponse(
-  xml: string,
+  response: XmlElement,
   productId: string
-): PricingConfiguration {
-  const currency = extractValue(xml, "currency") || "USD";
+): Omit<PricingConfiguration, "fobId" | "fobPoints" | "priceType" | "configurationType"> {
+  const configuration = findChild(response, "Configuration");
+  if (!configuration) {
+    throw new InvalidResponseError("GetConfigurationAndPricingResponse has no Configuration");
+  }
+
+  const currency = childText(configuration, "currency") || "USD";
 
   // Parse Parts
   const parts: Part[] = [];
-  let partBlocks = extractAllBlocks(xml, "Part");
-
-  // Also try PartArray if no parts found directly
-  if (partBlocks.length === 0) {
-    const partArrayBlocks = extractAllBlocks(xml, "PartArray");
-    if (partArrayBlocks.length > 0) {
-      partBlocks = extractAllBlocks(partArrayBlocks[0], "Part");
-    }
-  }
-
-  console.log('Found Part blocks:', partBlocks.length);
+  const partElements = findPath(configuration, ["PartArray", "Part"]);
+  console.log('Found Part elements:', partElements.length);
 
-  for (const partBlock of partBlocks) {
-    const partId = extractValue(partBlock, "partId");
-    const partDescription = extractValue(partBlock, "partDescription") || "";
-    const partGroupStr = extractValue(partBlock, "partGroup");
+  for (const partElement of partElements) {
+    const partId = childText(partElement, "partId");
+    const partDescription = childText(partElement, "partDescription") || "";
+    const partGroupStr = childText(partElement, "partGroup");
     const partGroup = partGroupStr ? parseInt(partGroupStr) : undefined;
+    const ratioStr = childText(partElement, "ratio");
 
     if (partId) {
       const priceBreaks: PartPrice[] = [];
-      const priceBlocks = extractAllBlocks(partBlock, "PartPrice");
 
-      for (const priceBlock of priceBlocks) {
-        const minQty = extractValue(priceBlock, "minQuantity");
-        const price = extractValue(priceBlock, "price");
-        const priceUom = extractValue(priceBlock, "priceUom") || "EA";
+      for (const priceElement of findPath(partElement, ["PartPriceArray", "PartPrice"])) {
+        const minQty = childText(priceElement, "minQuantity");
+        const price = childText(priceElement, "price");
+        const priceUom = childText(priceElement, "priceUom") || "EA";
 
         if (minQty && price) {
           priceBreaks.push({
@@ -275,6 +347,8 @@ function parseConfigurationResponse(
         partId,
         partDescription,
         partGroup,
+        partGroupDescription: childText(partElement, "partGroupDescription") || undefined,
+        ratio: ratioStr ? parseNumber(ratioStr, 1) : undefined,
         priceBreaks: priceBreaks.sort((a, b) => a.minQuantity - b.minQuantity),
       });
     }
@@ -282,93 +356,51 @@ function parseConfigurationResponse(
 
   // Parse Locations
   const locations: Location[] = [];
-  let locationBlocks = extractAllBlocks(xml, "Location");
-
-  // Also try LocationArray if no locations found directly
-  if (locationBlocks.length === 0) {
-    const locationArrayBlocks = extractAllBlocks(xml, "LocationArray");
-    if (locationArrayBlocks.length > 0) {
-      locationBlocks = extractAllBlocks(locationArrayBlocks[0], "Location");
-    }
-  }
-
-  console.log('Found Location blocks:', locationBlocks.length);
+  const locationElements = findPath(configuration, ["LocationArray", "Location"]);
+  console.log('Found Location elements:', locationElements.length);
 
-  for (const locBlock of locationBlocks) {
-    const locationId = extractValue(locBlock, "locationId");
-    const locationName = extractValue(locBlock, "locationName");
-    const defaultLocation =
-      extractValue(locBlock, "defaultLocation") === "true";
+  for (const locElement of locationElements) {
+    const locationId = childText(locElement, "locationId");
+    const locationName = childText(locElement, "locationName");
+    const defaultLocation = childText(locElement, "defaultLocation") === "true";
 
     if (locationId && locationName) {
       const decorations: Decoration[] = [];
-      const decorationBlocks = extractAllBlocks(locBlock, "Decoration");
-
-      for (const decBlock of decorationBlocks) {
-        const decorationId = extractValue(decBlock, "decorationId");
-        const decorationName = extractValue(decBlock, "decorationName");
-        const decorationGeometry =
-          extractValue(decBlock, "decorationGeometry") || "";
-        const decorationHeight = parseFloat(
-          extractValue(decBlock, "decorationHeight") || "0"
-        );
-        const decorationWidth = parseFloat(
-          extractValue(decBlock, "decorationWidth") || "0"
-        );
-        const decorationUom =
-          extractValue(decBlock, "decorationUom") || "Inches";
-        const decorationUnitsIncluded = parseInt(
-          extractValue(decBlock, "decorationUnitsIncluded") || "0"
-        );
-        const decorationUnitsMax = parseInt(
-          extractValue(decBlock, "decorationUnitsMax") || "1"
-        );
-        const defaultDecoration =
-          extractValue(decBlock, "defaultDecoration") === "true";
+
+      for (const decElement of findPath(locElement, ["DecorationArray", "Decoration"])) {
+        const decorationId = childText(decElement, "decorationId");
+        const decorationName = childText(decElement, "decorationName");
+        const decorationGeometry = childText(decElement, "decorationGeometry") || "";
+        const decorationHeight = parseNumber(childText(decElement, "decorationHeight"), 0);
+        const decorationWidth = parseNumber(childText(decElement, "decorationWidth"), 0);
+        const decorationUom = childText(decElement, "decorationUom") || "Inches";
+        const decorationUnitsIncluded = parseInteger(childText(decElement, "decorationUnitsIncluded"), 0);
+        const decorationUnitsMax = parseInteger(childText(decElement, "decorationUnitsMax"), 1);
+        const defaultDecoration = childText(decElement, "defaultDecoration") === "true";
 
         if (decorationId && decorationName) {
           const charges: Charge[] = [];
-          const chargeBlocks = extractAllBlocks(decBlock, "Charge");
-
-          for (const chargeBlock of chargeBlocks) {
-            const chargeId = extractValue(chargeBlock, "chargeId");
-            const chargeName = extractValue(chargeBlock, "chargeName");
-            const chargeDescription =
-              extractValue(chargeBlock, "chargeDescription") || "";
-            const chargeType = extractValue(chargeBlock, "chargeType") as
+
+          for (const chargeElement of findPath(decElement, ["ChargeArray", "Charge"])) {
+            const chargeId = childText(chargeElement, "chargeId");
+            const chargeName = childText(chargeElement, "chargeName");
+            const chargeDescription = childText(chargeElement, "chargeDescription") || "";
+            const chargeType = childText(chargeElement, "chargeType") as
               | "Setup"
-              | "Run";
+              | "Run"
+              | "Order";
 
             if (chargeId && chargeName && chargeType) {
               const priceArray: ChargePrice[] = [];
-              const chargePriceBlocks = extractAllBlocks(
-                chargeBlock,
-                "ChargePrice"
-              );
-
-              for (const chargePriceBlock of chargePriceBlocks) {
-                const xMinQty = parseInt(
-                  extractValue(chargePriceBlock, "xMinQty") || "1"
-                );
-                const xUom = extractValue(chargePriceBlock, "xUom") || "EA";
-                const yMinQty = parseInt(
-                  extractValue(chargePriceBlock, "yMinQty") || "1"
-                );
-                const yUom = extractValue(chargePriceBlock, "yUom") || "Colors";
-                const price = parseFloat(
-                  extractValue(chargePriceBlock, "price") || "0"
-                );
-                const repeatPrice = parseFloat(
-                  extractValue(chargePriceBlock, "repeatPrice") || "0"
-                );
 
+              for (const chargePriceElement of findPath(chargeElement, ["ChargePriceArray", "ChargePrice"])) {
                 priceArray.push({
-                  xMinQty,
-                  xUom,
-                  yMinQty,
-                  yUom,
-                  price,
-                  repeatPrice,
+                  xMinQty: parseInteger(childText(chargePriceElement, "xMinQty"), 1),
+                  xUom: childText(chargePriceElement, "xUom") || "EA",
+                  yMinQty: parseInteger(childText(chargePriceElement, "yMinQty"), 1),
+                  yUom: childText(chargePriceElement, "yUom") || "Colors",
+                  price: parseNumber(childText(chargePriceElement, "price"), 0),
+                  repeatPrice: optionalNumber(childText(chargePriceElement, "repeatPrice")),
                 });
               }
 
@@ -407,42 +439,552 @@ function parseConfigurationResponse(
   }
 
   return {
-    productId,
+    productId: childText(configuration, "productId") || productId,
     currency,
     parts,
     locations,
   };
 }
 
+// Get stock levels for all parts of a product (Inventory 2.0.0)
+export async function getInventoryLevels(
+  trace: TraceContext,
+  supplier: Supplier,
+  productId: string,
+  partIds: string[] = []
+): Promise<InventoryLevels> {
+  const endpoint = getSupplierEndpoint(supplier, "inventory");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "inventory",
+    version: endpoint.version,
+    operation: "GetInventoryLevelsRequest",
+    credentials: supplier.credentials,
+    fields: {
+      productId,
+      Filter: partIds.length > 0 ? { partIdArray: { partId: partIds } } : undefined,
+    },
+  });
+
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "getInventoryLevels",
+    "GetInventoryLevelsResponse",
+    soapEnvelope
+  );
+  return parseInventoryResponse(response, productId);
+}
+
+// Quantity elements wrap the number as <Quantity><uom/><value/></Quantity>
+function quantityValue(element: XmlElement | undefined): number {
+  return parseNumber(childText(findChild(element, "Quantity"), "value"), 0);
+}
+
+function parseInventoryResponse(response: XmlElement, productId: string): InventoryLevels {
+  const inventory = findChild(response, "Inventory");
+  const parts: PartInventory[] = [];
+
+  for (const partElement of findPath(inventory, ["PartInventoryArray", "PartInventory"])) {
+    const partId = childText(partElement, "partId");
+    if (!partId) continue;
+
+    const locations: InventoryLocation[] = [];
+    for (const locElement of findPath(partElement, ["InventoryLocationArray", "InventoryLocation"])) {
+      const locationId = childText(locElement, "inventoryLocationId");
+      if (!locationId) continue;
+      locations.push({
+        locationId,
+        locationName: childText(locElement, "inventoryLocationName") || locationId,
+        postalCode: childText(locElement, "postalCode"),
+        country: childText(locElement, "country"),
+        quantityAvailable: quantityValue(findChild(locElement, "inventoryLocationQuantity")),
+      });
+    }
+
+    parts.push({
+      partId,
+      partDescription: childText(partElement, "partDescription"),
+      quantityAvailable: quantityValue(findChild(partElement, "quantityAvailable")),
+      manufacturedItem: childText(partElement, "manufacturedItem") === "true",
+      buyToOrder: childText(partElement, "buyToOrder") === "true",
+      locations,
+    });
+  }
+
+  return {
+    productId: childText(inventory, "productId") || productId,
+    parts,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+// Image metadata rarely changes, so it's shared across conversations for a while
+const MEDIA_CACHE_TTL_MS = 60 * 60 * 1000;
+const mediaCache = new Map<string, ProductMedia>();
+
+// Get product and part images (Media Content service), cached per supplier/product
+export async function getMediaContent(trace: TraceContext, supplier: Supplier, productId: string): Promise<ProductMedia> {
+  const cacheKey = `${supplier.id}:${productId}`;
+  const cached = mediaCache.get(cacheKey);
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < MEDIA_CACHE_TTL_MS) {
+    addDebugLog(trace, "Media Content Cache Hit", `Supplier: ${supplier.id}\nProduct: ${productId}`);
+    return cached;
+  }
+
+  const endpoint = getSupplierEndpoint(supplier, "mediaContent");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "mediaContent",
+    version: endpoint.version,
+    operation: "GetMediaContentRequest",
+    credentials: supplier.credentials,
+    fields: {
+      mediaType: "Image",
+      productId,
+    },
+  });
+
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "getMediaContent",
+    "GetMediaContentResponse",
+    soapEnvelope
+  );
+  const media = parseMediaContentResponse(response, productId);
+  mediaCache.set(cacheKey, media);
+  return media;
+}
+
+// Lower is better when picking the image to show for a part
+function imageRank(image: MediaImage): number {
+  const classes = image.classTypes.map(c => c.toLowerCase());
+  if (classes.includes("primary")) return 0;
+  if (classes.includes("front")) return 1;
+  if (classes.includes("blank")) return 2;
+  return 3;
+}
+
+function parseMediaContentResponse(response: XmlElement, productId: string): ProductMedia {
+  const images: MediaImage[] = [];
+
+  for (const mediaElement of findPath(response, ["MediaContentArray", "MediaContent"])) {
+    const url = childText(mediaElement, "url");
+    if (!url) continue;
+    images.push({
+      url,
+      partId: childText(mediaElement, "partId"),
+      description: childText(mediaElement, "description"),
+      classTypes: findPath(mediaElement, ["ClassTypeArray", "ClassType"])
+        .map(c => childText(c, "classTypeName"))
+        .filter((name): name is string => Boolean(name)),
+      color: childText(mediaElement, "color"),
+      width: optionalNumber(childText(mediaElement, "width")),
+      height: optionalNumber(childText(mediaElement, "height")),
+    });
+  }
+
+  const ranked = [...images].sort((a, b) => imageRank(a) - imageRank(b));
+  const partImages: Record<string, string> = {};
+  for (const image of ranked) {
+    if (image.partId && !partImages[image.partId]) {
+      partImages[image.partId] = image.url;
+    }
+  }
+
+  return {
+    productId,
+    images,
+    partImages,
+    primaryImageUrl: (ranked.find(i => !i.partId) || ranked[0])?.url,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+// Build the PO 1.0.0 <PO> element for a single completed line item
+function buildPurchaseOrderFields(
+  lineItem: OrderLineItem,
+  pricingData: PricingConfiguration,
+  details: PurchaseOrderDetails
+): SoapFields {
+  const shipTo = details.shipTo;
+  const quantity = { uom: "EA", value: lineItem.quantity };
+
+  // Resolve the supplier's ids for each imprint's location and decoration
+  const imprints = lineItem.imprints.flatMap(imprint => {
+    const location = pricingData.locations.find(l => l.locationName === imprint.decorationLocation);
+    const decoration = location?.decorations.find(d => d.decorationName === imprint.decorationMethod);
+    return location && decoration ? [{ imprint, location, decoration }] : [];
+  });
+  const isDecorated = imprints.length > 0;
+  const locationLinkIds = imprints.map((_, index) => index + 1);
+
+  const charges = lineItem.charges
+    .filter(c => c.chargeId)
+    .map(c => ({
+      chargeId: c.chargeId,
+      chargeName: c.name,
+      description: c.description,
+      chargeType: c.chargeType || "Run",
+      Quantity: { uom: "EA", value: c.quantity },
+      unitprice: c.unitPrice.toFixed(4),
+      extendedPrice: c.extendedPrice.toFixed(2),
+    }));
+
+  const configuration: SoapFields | undefined = isDecorated ? {
+    ChargeArray: { Charge: charges },
+    LocationArray: {
+      Location: imprints.map(({ imprint, location, decoration }, index) => ({
+        locationLinkId: locationLinkIds[index],
+        locationId: location.locationId,
+        locationName: location.locationName,
+        DecorationArray: {
+          Decoration: {
+            decorationId: decoration.decorationId,
+            decorationName: decoration.decorationName,
+            Artwork: {
+              description: `${imprint.decorationColors || 1} color imprint`,
+            },
+          },
+        },
+      })),
+    },
+    preProductionProof: false,
+  } : undefined;
+
+  return {
+    orderType: isDecorated ? "Configured" : "Blank",
+    orderNumber: details.poNumber,
+    orderDate: new Date().toISOString(),
+    totalAmount: lineItem.totalWithCharges.toFixed(2),
+    rush: Boolean(details.rush),
+    currency: pricingData.currency,
+    ShipmentArray: {
+      Shipment: {
+        allowConsolidation: false,
+        blindShip: false,
+        packingListRequired: false,
+        ShipTo: {
+          customerPickup: false,
+          ContactDetails: {
+            attentionTo: shipTo.attentionTo || undefined,
+            companyName: shipTo.companyName,
+            address1: shipTo.address1,
+            address2: shipTo.address2 || undefined,
+            city: shipTo.city,
+            region: shipTo.region,
+            postalCode: shipTo.postalCode,
+            country: shipTo.country,
+            email: shipTo.email || undefined,
+            phone: shipTo.phone || undefined,
+          },
+          shipmentId: 1,
+        },
+      },
+    },
+    LineItemArray: {
+      LineItem: {
+        lineNumber: 1,
+        description: `${lineItem.productName} - ${lineItem.description}`,
+        lineType: lineItem.repeat ? "Repeat" : "New",
+        Quantity: quantity,
+        fobId: pricingData.fobId,
+        ToleranceDetails: { tolerance: "ExactOnly" },
+        allowPartialShipments: false,
+        unitPrice: lineItem.unitPrice.toFixed(4),
+        lineItemTotal: lineItem.totalWithCharges.toFixed(2),
+        productId: lineItem.productId,
+        PartArray: {
+          Part: [
+            {
+              partId: lineItem.partId,
+              customerSupplied: false,
+              Quantity: quantity,
+              locationLinkId: isDecorated ? locationLinkIds : undefined,
+              unitPrice: lineItem.unitPrice.toFixed(4),
+              extendedPrice: lineItem.extendedPrice.toFixed(2),
+              ShipmentLinkArray: {
+                ShipmentLink: { shipmentId: 1, Quantity: quantity },
+              },
+            },
+            // Accessories ship with the product but aren't decorated
+            ...lineItem.accessories.map(accessory => ({
+              partId: accessory.partId,
+              customerSupplied: false,
+              Quantity: { uom: "EA", value: accessory.quantity },
+              unitPrice: accessory.unitPrice.toFixed(4),
+              extendedPrice: accessory.extendedPrice.toFixed(2),
+              ShipmentLinkArray: {
+                ShipmentLink: { shipmentId: 1, Quantity: { uom: "EA", value: accessory.quantity } },
+              },
+            })),
+          ],
+        },
+        Configuration: configuration,
+      },
+    },
+    termsAndConditions: "",
+  };
+}
+
+// Submit a completed line item as a PromoStandards PO (PO 1.0.0 sendPO).
+// With dryRun the request XML is returned without contacting the supplier.
+export async function sendPurchaseOrder(
+  trace: TraceContext,
+  supplier: Supplier,
+  lineItem: OrderLineItem,
+  pricingData: PricingConfiguration,
+  details: PurchaseOrderDetails,
+  dryRun = false
+): Promise<PurchaseOrderResult> {
+  const endpoint = getSupplierEndpoint(supplier, "purchaseOrder");
+  const buildEnvelope = (password: string) => buildSoapEnvelope({
+    service: "purchaseOrder",
+    version: endpoint.version,
+    operation: "SendPORequest",
+    credentials: { ...supplier.credentials, password },
+    fields: { PO: buildPurchaseOrderFields(lineItem, pricingData, details) },
+  });
+
+  if (dryRun) {
+    // Dry runs go back to the browser, so never include the real credentials
+    return {
+      poNumber: details.poNumber,
+      dryRun: true,
+      xml: redact(buildEnvelope("********")),
+      submittedAt: new Date().toISOString(),
+    };
+  }
+
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "sendPO",
+    "SendPOResponse",
+    buildEnvelope(supplier.credentials.password)
+  );
+  const transactionId = childText(response, "transactionId");
+  if (!transactionId) {
+    const error = new InvalidResponseError("SendPOResponse has no transactionId");
+    error.supplierId = supplier.id;
+    throw error;
+  }
+
+  return {
+    poNumber: details.poNumber,
+    dryRun: false,
+    transactionId,
+    submittedAt: new Date().toISOString(),
+  };
+}
+
+// Look up an order's status by PO number (Order Status 1.0.0, queryType 1 = PO search)
+export async function getOrderStatusDetails(trace: TraceContext, supplier: Supplier, poNumber: string): Promise<OrderStatus[]> {
+  const endpoint = getSupplierEndpoint(supplier, "orderStatus");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "orderStatus",
+    version: endpoint.version,
+    operation: "GetOrderStatusDetailsRequest",
+    credentials: supplier.credentials,
+    fields: {
+      queryType: 1, // PO search
+      referenceNumber: poNumber,
+    },
+  });
+
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "getOrderStatusDetails",
+    "GetOrderStatusDetailsResponse",
+    soapEnvelope
+  );
+
+  return findPath(response, ["OrderStatusArray", "OrderStatus"]).map(statusElement => {
+    const details: OrderStatusDetail[] = findPath(statusElement, ["OrderStatusDetailArray", "OrderStatusDetail"])
+      .map(detail => ({
+        salesOrderNumber: childText(detail, "factoryOrderNumber"),
+        statusId: childText(detail, "statusID") || "",
+        statusName: childText(detail, "statusName") || "Unknown",
+        expectedShipDate: childText(detail, "expectedShipDate"),
+        expectedDeliveryDate: childText(detail, "expectedDeliveryDate"),
+        additionalExplanation: childText(detail, "additionalExplanation"),
+        validTimestamp: childText(detail, "validTimestamp"),
+      }));
+
+    return {
+      purchaseOrderNumber: childText(statusElement, "purchaseOrderNumber") || poNumber,
+      details,
+    };
+  });
+}
+
+// Look up shipments and tracking numbers by PO number (Order Shipment Notification 1.0.0)
+export async function getOrderShipmentNotification(trace: TraceContext, supplier: Supplier, poNumber: string): Promise<OrderShipment[]> {
+  const endpoint = getSupplierEndpoint(supplier, "orderShipmentNotification");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "orderShipmentNotification",
+    version: endpoint.version,
+    operation: "GetOrderShipmentNotificationRequest",
+    credentials: supplier.credentials,
+    fields: {
+      queryType: 1, // PO search
+      referenceNumber: poNumber,
+    },
+  });
+
+  const response = await callSoapOperation(
+    trace,
+    supplier,
+    endpoint,
+    "getOrderShipmentNotification",
+    "GetOrderShipmentNotificationResponse",
+    soapEnvelope
+  );
+
+  const shipments: OrderShipment[] = [];
+  for (const notification of findPath(response, ["OrderShipmentNotificationArray", "OrderShipmentNotification"])) {
+    const purchaseOrderNumber = childText(notification, "purchaseOrderNumber") || poNumber;
+
+    for (const salesOrder of findPath(notification, ["SalesOrderArray", "SalesOrder"])) {
+      const packages: ShipmentPackage[] = findPath(salesOrder, ["ShipmentLocationArray", "ShipmentLocation"])
+        .flatMap(location => findPath(location, ["PackageArray", "Package"]))
+        .map(pkg => ({
+          trackingNumber: childText(pkg, "trackingNumber"),
+          carrier: childText(pkg, "carrier"),
+          shipmentMethod: childText(pkg, "shipmentMethod"),
+          shipmentDate: childText(pkg, "shipmentDate"),
+        }));
+
+      shipments.push({
+        purchaseOrderNumber,
+        salesOrderNumber: childText(salesOrder, "salesOrderNumber"),
+        complete: childText(salesOrder, "complete") === "true",
+        packages,
+      });
+    }
+  }
+
+  return shipments;
+}
+
 export async function getProductData(
+  trace: TraceContext,
+  supplier: Supplier,
   productId: string
-): Promise<{ productName: string; description: string }> {
-  const soapEnvelope = `<?xml version="1.0" encoding="utf-8"?>
-<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" 
-               xmlns:ns="http://www.promostandards.org/WSDL/ProductDataService/1.0.0/">
-  <soap:Body>
-    <ns:GetProductRequest>
-      <ns:wsVersion>1.0.0</ns:wsVersion>
-      <ns:id>${HIT_CREDENTIALS.username}</ns:id>
-      <ns:password>${HIT_CREDENTIALS.password}</ns:password>
-      <ns:productId>${productId}</ns:productId>
-    </ns:GetProductRequest>
-  </soap:Body>
-</soap:Envelope>`;
-
-  const response = await fetch(HIT_ENDPOINTS.productData, {
-    method: "POST",
-    headers: {
-      "Content-Type": "text/xml; charset=utf-8",
-      SOAPAction: "getProduct",
+): Promise<ProductData> {
+  const endpoint = getSupplierEndpoint(supplier, "productData");
+  const soapEnvelope = buildSoapEnvelope({
+    service: "productData",
+    version: endpoint.version,
+    operation: "GetProductRequest",
+    credentials: supplier.credentials,
+    fields: {
+      localizationCountry: "US",
+      localizationLanguage: "en",
+      productId,
     },
-    body: soapEnvelope,
   });
 
-  const xmlText = await response.text();
+  const response = await callSoapOperation(trace, supplier, endpoint, "getProduct", "GetProductResponse", soapEnvelope);
+  const product = findChild(response, "Product");
+  if (!product) {
+    const error = new PromoStandardsError("PRODUCT_NOT_FOUND", `${supplier.name} returned no product data for ${productId}`);
+    error.supplierId = supplier.id;
+    throw error;
+  }
+
+  return parseProductData(product, productId);
+}
+
+// Text of every direct child with this name (e.g. repeated <description> lines)
+function allChildText(element: XmlElement | undefined, name: string): string[] {
+  return findChildren(element, name)
+    .map(c => c.text.trim())
+    .filter(text => text !== "");
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const num = parseFloat(value);
+  return Number.isNaN(num) ? undefined : num;
+}
+
+function parseProductPart(partElement: XmlElement): ProductPart | null {
+  const partId = childText(partElement, "partId");
+  if (!partId) return null;
+
+  const dimensionElement = findChild(partElement, "Dimension");
+  const dimensions: ProductDimensions | undefined = dimensionElement ? {
+    dimensionUom: childText(dimensionElement, "dimensionUom"),
+    depth: optionalNumber(childText(dimensionElement, "depth")),
+    height: optionalNumber(childText(dimensionElement, "height")),
+    width: optionalNumber(childText(dimensionElement, "width")),
+    weightUom: childText(dimensionElement, "weightUom"),
+    weight: optionalNumber(childText(dimensionElement, "weight")),
+  } : undefined;
 
   return {
-    productName: extractValue(xmlText, "productName") || "Unknown Product",
-    description: extractValue(xmlText, "description") || "",
+    partId,
+    description: allChildText(partElement, "description").join(" "),
+    colors: findPath(partElement, ["ColorArray", "Color"])
+      .map(color => ({
+        colorName: childText(color, "colorName") || "",
+        hex: childText(color, "hex")?.replace(/^#/, ""),
+        approximatePms: childText(color, "approximatePms"),
+        standardColorName: childText(color, "standardColorName"),
+      }))
+      .filter(color => color.colorName),
+    dimensions,
+    primaryMaterial: childText(partElement, "primaryMaterial"),
+    countryOfOrigin: childText(partElement, "countryOfOrigin"),
+    leadTime: optionalNumber(childText(partElement, "leadTime")),
+    isRushService: childText(partElement, "isRushService") === "true",
+    isCloseout: childText(partElement, "isCloseout") === "true",
+    isHazmat: childText(partElement, "isHazmat") === "true",
+  };
+}
+
+function parseProductData(product: XmlElement, productId: string): ProductData {
+  const parts = findPath(product, ["ProductPartArray", "ProductPart"])
+    .map(parseProductPart)
+    .filter((part): part is ProductPart => part !== null);
+
+  const leadTimes = parts
+    .map(p => p.leadTime)
+    .filter((days): days is number => days !== undefined);
+
+  return {
+    productId: childText(product, "productId") || productId,
+    productName: childText(product, "productName") || "Unknown Product",
+    description: allChildText(product, "description").join("\n"),
+    brand: childText(product, "productBrand"),
+    lineName: childText(product, "lineName"),
+    imprintSize: childText(product, "imprintSize"),
+    primaryImageUrl: childText(product, "primaryImageUrl"),
+    leadTime: leadTimes.length > 0 ? Math.min(...leadTimes) : undefined,
+    categories: findPath(product, ["ProductCategoryArray", "ProductCategory"])
+      .map(category => ({
+        category: childText(category, "category") || "",
+        subCategory: childText(category, "subCategory"),
+      }))
+      .filter(category => category.category),
+    keywords: findPath(product, ["ProductKeywordArray", "ProductKeyword"])
+      .map(keyword => childText(keyword, "keyword"))
+      .filter((keyword): keyword is string => Boolean(keyword)),
+    parts,
+    fobPoints: findPath(product, ["FobPointArray", "FobPoint"])
+      .map(parseFobPoint)
+      .filter((fob): fob is FobPoint => fob !== null),
+    compliance: {
+      complianceInfoAvailable: childText(product, "complianceInfoAvailable") === "true",
+      isCaution: childText(product, "isCaution") === "true",
+      cautionComment: childText(product, "cautionComment"),
+      isCloseout: childText(product, "isCloseout") === "true",
+      isHazmat: parts.some(p => p.isHazmat),
+    },
   };
 }
@@ -0,0 +1,136 @@
+import { PromoStandardsService, SupplierCredentials } from '../types';
+import { escapeXml } from './xml';
+
+// Builds PromoStandards SOAP 1.1 request envelopes from plain objects. Every value is
+// escaped here, so callers never paste user input into XML themselves.
+
+export type SoapScalar = string | number | boolean;
+
+// An object becomes child elements (in key order), an array repeats the element,
+// and undefined/null leaves the element out
+export type SoapValue = SoapScalar | SoapFields | Array<SoapScalar | SoapFields> | undefined | null;
+
+export interface SoapFields {
+  [element: string]: SoapValue;
+}
+
+export interface SoapRequest {
+  service: PromoStandardsService;
+  version: string; // Endpoint version, sent as wsVersion
+  operation: string; // Request element, e.g. "GetProductRequest"
+  credentials: SupplierCredentials;
+  fields: SoapFields; // Everything after wsVersion/id/password
+}
+
+interface ServiceNamespace {
+  name: string; // WSDL path segment
+  namespaceVersion?: string; // When the namespace doesn't follow wsVersion
+  sharedFields: (version: string) => boolean; // Request fields live in .../SharedObjects/
+}
+
+const SERVICE_NAMESPACES: Record<PromoStandardsService, ServiceNamespace> = {
+  productData: { name: 'ProductDataService', sharedFields: version => !version.startsWith('1.') },
+  ppc: { name: 'PricingAndConfiguration', sharedFields: () => true },
+  inventory: { name: 'Inventory', sharedFields: () => true },
+  purchaseOrder: { name: 'PO', sharedFields: () => true },
+  orderStatus: { name: 'OrderStatusService', sharedFields: () => true },
+  orderShipmentNotification: { name: 'OrderShipmentNotificationService', sharedFields: () => true },
+  // Media Content 1.1.0 still uses the 1.0.0 namespace
+  mediaContent: { name: 'MediaService', namespaceVersion: '1.0.0', sharedFields: () => true },
+};
+
+const SOAP_NAMESPACE = 'http://schemas.xmlsoap.org/soap/envelope/';
+
+const ELEMENT_NAME = /^[A-Za-z_][\w.-]*$/;
+
+export function serviceNamespace(service: PromoStandardsService, version: string): string {
+  const config = SERVICE_NAMESPACES[service];
+  return `http://www.promostandards.org/WSDL/${config.name}/${config.namespaceVersion || version}/`;
+}
+
+export function sharedNamespace(service: PromoStandardsService, version: string): string {
+  return `${serviceNamespace(service, version)}SharedObjects/`;
+}
+
+function isFields(value: SoapValue): value is SoapFields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function serializeElement(name: string, value: SoapValue, indent: string, xmlns?: string): string[] {
+  if (!ELEMENT_NAME.test(name)) {
+    throw new Error(`Invalid SOAP element name "${name}"`);
+  }
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) {
+    return value.flatMap(item => serializeElement(name, item, indent, xmlns));
+  }
+
+  const open = xmlns ? `<${name} xmlns="${escapeXml(xmlns)}">` : `<${name}>`;
+  if (!isFields(value)) {
+    return [`${indent}${open}${escapeXml(value)}</${name}>`];
+  }
+
+  const children = Object.entries(value).flatMap(([child, childValue]) =>
+    serializeElement(child, childValue, `${indent}  `)
+  );
+  return children.length > 0
+    ? [`${indent}${open}`, ...children, `${indent}</${name}>`]
+    : [`${indent}${open}</${name}>`];
+}
+
+// Wrap an operation element and its fields in a SOAP envelope. Also builds
+// supplier-side responses (e.g. "GetProductResponse") for the mock supplier.
+export function buildOperationEnvelope(
+  service: PromoStandardsService,
+  version: string,
+  operation: string,
+  fields: SoapFields
+): string {
+  if (!ELEMENT_NAME.test(operation)) {
+    throw new Error(`Invalid SOAP operation "${operation}"`);
+  }
+  const ns = serviceNamespace(service, version);
+  // Fields in the service namespace inherit it from the operation element
+  const fieldNs = SERVICE_NAMESPACES[service].sharedFields(version)
+    ? sharedNamespace(service, version)
+    : undefined;
+
+  const body = Object.entries(fields).flatMap(([name, value]) =>
+    serializeElement(name, value, '      ', fieldNs)
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<soap:Envelope xmlns:soap="${SOAP_NAMESPACE}">`,
+    '  <soap:Body>',
+    `    <${operation} xmlns="${escapeXml(ns)}">`,
+    ...body,
+    `    </${operation}>`,
+    '  </soap:Body>',
+    '</soap:Envelope>',
+  ].join('\n');
+}
+
+export function buildSoapEnvelope(request: SoapRequest): string {
+  return buildOperationEnvelope(request.service, request.version, request.operation, {
+    wsVersion: request.version,
+    id: request.credentials.username,
+    password: request.credentials.password,
+    ...request.fields,
+  });
+}
+
+// SOAP 1.1 Fault envelope
+export function buildSoapFaultEnvelope(faultCode: string, faultString: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<soap:Envelope xmlns:soap="${SOAP_NAMESPACE}">`,
+    '  <soap:Body>',
+    '    <soap:Fault>',
+    `      <faultcode>${escapeXml(faultCode)}</faultcode>`,
+    `      <faultstring>${escapeXml(faultString)}</faultstring>`,
+    '    </soap:Fault>',
+    '  </soap:Body>',
+    '</soap:Envelope>',
+  ].join('\n');
+}
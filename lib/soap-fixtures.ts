@@ -0,0 +1,71 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { createHash } from 'crypto';
+import { redact } from './debug-log';
+
+// Record/replay of supplier SOAP traffic, for demos and tests without network access.
+//   SOAP_TRANSPORT_MODE=live   - call suppliers (default)
+//   SOAP_TRANSPORT_MODE=record - call suppliers and save each request/response pair
+//   SOAP_TRANSPORT_MODE=replay - serve saved responses only, never touching the network
+export type SoapTransportMode = 'live' | 'record' | 'replay';
+
+const FIXTURES_DIR = process.env.SOAP_FIXTURES_DIR || join(process.cwd(), 'fixtures', 'soap');
+
+export interface SoapFixture {
+  supplierId: string;
+  soapAction: string;
+  url: string;
+  request: string; // Request and body are redacted - fixtures are meant to be committed
+  status: number;
+  statusText: string;
+  body: string;
+  recordedAt: string;
+}
+
+export function getTransportMode(): SoapTransportMode {
+  const mode = process.env.SOAP_TRANSPORT_MODE?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+// Requests match on content, not credentials, timestamps or formatting, so fixtures
+// recorded with one account replay for another
+function requestKey(soapEnvelope: string): string {
+  const normalized = soapEnvelope
+    .replace(/<((?:[\w.-]+:)?(?:id|password|orderDate))(\s[^>]*)?>[^<]*<\/\1>/gi, '<$1$2/>')
+    .replace(/>\s+</g, '><')
+    .trim();
+  return createHash('sha256').update(normalized).digest('hex').slice(0, 16);
+}
+
+function safePart(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+// e.g. fixtures/soap/hit/getConfigurationAndPricing-3f2a9c0d1b7e4a55.json
+export function fixturePath(supplierId: string, soapAction: string, soapEnvelope: string): string {
+  return join(FIXTURES_DIR, safePart(supplierId), `${safePart(soapAction)}-${requestKey(soapEnvelope)}.json`);
+}
+
+export function readFixture(filePath: string): SoapFixture | null {
+  try {
+    if (existsSync(filePath)) {
+      return JSON.parse(readFileSync(filePath, 'utf-8'));
+    }
+  } catch (error) {
+    console.error(`Error loading ${filePath}:`, error);
+  }
+  return null;
+}
+
+export function writeFixture(filePath: string, fixture: SoapFixture): void {
+  try {
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify({
+      ...fixture,
+      request: redact(fixture.request),
+      body: redact(fixture.body),
+    }, null, 2));
+  } catch (error) {
+    console.error(`Error saving ${filePath}:`, error);
+  }
+}
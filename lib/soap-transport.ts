@@ -0,0 +1,331 @@
+import { Supplier, SupplierEndpoint } from '../types';
+import { addDebugLog, TraceContext } from './debug-log';
+import { parseXml, findDescendant } from './xml';
+import { PromoStandardsError, TimeoutError, NetworkError, CircuitOpenError } from './errors';
+import { getTransportMode, fixturePath, readFixture, writeFixture } from './soap-fixtures';
+
+// Shared HTTP transport for every PromoStandards SOAP call: per-operation timeouts,
+// exponential backoff on 5xx/network errors, a per-supplier circuit breaker, and
+// optional routing through a SOAP proxy.
+
+export interface SoapHttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+}
+
+interface OperationPolicy {
+  timeoutMs: number;
+  retries: number; // Extra attempts after the first
+}
+
+const DEFAULT_POLICY: OperationPolicy = { timeoutMs: 25000, retries: 2 };
+
+// Overrides keyed by SOAPAction
+const OPERATION_POLICIES: Record<string, Partial<OperationPolicy>> = {
+  getFobPoints: { timeoutMs: 15000 },
+  getConfigurationAndPricing: { timeoutMs: 30000 }, // Large responses for products with many parts
+  getProduct: { timeoutMs: 20000 },
+  getMediaContent: { timeoutMs: 20000 },
+  getInventoryLevels: { timeoutMs: 15000 },
+  getOrderStatusDetails: { timeoutMs: 15000 },
+  getOrderShipmentNotification: { timeoutMs: 15000 },
+  sendPO: { timeoutMs: 45000, retries: 0 }, // Not idempotent - a retry could place the order twice
+};
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 5000;
+
+// Consecutive failed calls (after retries) before a supplier's circuit opens
+const FAILURE_THRESHOLD = 3;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number; // 0 while closed
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getPolicy(soapAction: string): OperationPolicy {
+  return { ...DEFAULT_POLICY, ...OPERATION_POLICIES[soapAction] };
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return delay + Math.floor(Math.random() * delay * 0.2); // Jitter so parallel calls don't retry in lockstep
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 5xx/429 responses are worth retrying unless the body is a SOAP Fault - those are
+// the supplier's answer, and asking again gets the same one
+function isRetryableResponse(response: SoapHttpResponse): boolean {
+  if (response.status !== 429 && response.status < 500) return false;
+  try {
+    return !findDescendant(parseXml(response.body), 'Fault');
+  } catch {
+    return true;
+  }
+}
+
+function checkCircuit(trace: TraceContext, supplier: Supplier, label: string): void {
+  const circuit = circuits.get(supplier.id);
+  if (!circuit || circuit.openUntil === 0) return;
+
+  if (Date.now() < circuit.openUntil) {
+    const error = new CircuitOpenError(supplier.name, new Date(circuit.openUntil));
+    addDebugLog(trace, `${label} Circuit Open`, undefined, undefined, error.message);
+    throw error;
+  }
+  // Cooldown over - let this call through as a trial
+  addDebugLog(trace, `${label} Circuit Half-Open`, undefined, undefined, `Trying ${supplier.name} again after cooldown`);
+}
+
+function recordSuccess(supplier: Supplier): void {
+  circuits.delete(supplier.id);
+}
+
+function recordFailure(trace: TraceContext, supplier: Supplier, label: string): void {
+  const circuit = circuits.get(supplier.id) || { consecutiveFailures: 0, openUntil: 0 };
+  circuit.consecutiveFailures++;
+
+  // A failed half-open trial reopens immediately
+  if (circuit.consecutiveFailures >= FAILURE_THRESHOLD || circuit.openUntil > 0) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    addDebugLog(
+      trace,
+      `${label} Circuit Opened`,
+      undefined,
+      undefined,
+      `${circuit.consecutiveFailures} consecutive failures - failing fast for ${CIRCUIT_COOLDOWN_MS / 1000}s`
+    );
+  }
+  circuits.set(supplier.id, circuit);
+}
+
+// SOAP_PROXY_URL sends every supplier call through a relay speaking the /api/proxy-soap
+// contract, for deployments whose egress only allows the proxy host:
+//   unset         - call suppliers directly
+//   https://...   - an external proxy
+//   local         - this app's own /api/proxy-soap route (at APP_BASE_URL)
+export function getProxyUrl(): string | undefined {
+  const value = process.env.SOAP_PROXY_URL?.trim();
+  if (!value) return undefined;
+  if (value.toLowerCase() !== 'local') return value;
+  const baseUrl = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return `${baseUrl.replace(/\/$/, '')}/api/proxy-soap`;
+}
+
+// Body returned by /api/proxy-soap
+interface ProxyResponse {
+  status: number;
+  statusText?: string;
+  responseText: string;
+  error: string | null;
+  isTimeout?: boolean;
+}
+
+// Extra time for the proxy to report its own timeout before we give up on it
+const PROXY_GRACE_MS = 2000;
+
+async function directFetch(
+  endpoint: SupplierEndpoint,
+  soapAction: string,
+  soapEnvelope: string,
+  label: string,
+  timeoutMs: number
+): Promise<SoapHttpResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/xml; charset=utf-8',
+        'SOAPAction': `"${soapAction}"`, // Quotes required around action name
+      },
+      body: soapEnvelope,
+      signal: controller.signal,
+    });
+    const body = await response.text();
+    return { ok: response.ok, status: response.status, statusText: response.statusText, body };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TimeoutError(label, timeoutMs);
+    }
+    throw new NetworkError(label, error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function proxyFetch(
+  proxyUrl: string,
+  endpoint: SupplierEndpoint,
+  soapAction: string,
+  soapEnvelope: string,
+  label: string,
+  timeoutMs: number
+): Promise<SoapHttpResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs + PROXY_GRACE_MS);
+
+  let data: ProxyResponse;
+  try {
+    const response = await fetch(proxyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.SOAP_PROXY_TOKEN && { 'Authorization': `Bearer ${process.env.SOAP_PROXY_TOKEN}` }),
+      },
+      body: JSON.stringify({ endpoint: endpoint.url, soapAction, xmlBody: soapEnvelope, timeoutMs }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      // The proxy refused the call itself - asking again won't change its mind
+      const reason = await response.json().then(body => body.error, () => undefined);
+      throw new PromoStandardsError(
+        'NETWORK_ERROR',
+        `SOAP proxy rejected ${label}: HTTP ${response.status}${reason ? ` (${reason})` : ''}`
+      );
+    }
+    data = await response.json();
+  } catch (error) {
+    if (error instanceof PromoStandardsError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TimeoutError(label, timeoutMs);
+    }
+    throw new NetworkError(label, error);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (data.isTimeout) {
+    throw new TimeoutError(label, timeoutMs);
+  }
+  if (data.error && !data.responseText) {
+    throw new NetworkError(label, new Error(`via proxy: ${data.error}`));
+  }
+  return {
+    ok: data.status >= 200 && data.status < 300,
+    status: data.status,
+    statusText: data.statusText || '',
+    body: data.responseText,
+  };
+}
+
+// Serve a recorded response in replay mode
+function replayFixture(
+  trace: TraceContext,
+  supplier: Supplier,
+  soapAction: string,
+  soapEnvelope: string,
+  label: string
+): SoapHttpResponse {
+  const filePath = fixturePath(supplier.id, soapAction, soapEnvelope);
+  const fixture = readFixture(filePath);
+  if (!fixture) {
+    const error = new NetworkError(label, new Error(`no recorded fixture at ${filePath} (SOAP_TRANSPORT_MODE=replay)`));
+    error.supplierId = supplier.id;
+    addDebugLog(trace, `${label} Replay Miss`, undefined, undefined, error.message);
+    throw error;
+  }
+  addDebugLog(trace, `${label} Replay`, undefined, `Status: ${fixture.status} ${fixture.statusText}`, undefined, { durationMs: 0 });
+  return { ok: fixture.status >= 200 && fixture.status < 300, status: fixture.status, statusText: fixture.statusText, body: fixture.body };
+}
+
+// POST a SOAP envelope with the operation's retry/timeout policy.
+// Resolves with any HTTP response that isn't worth retrying (including SOAP Faults);
+// throws TimeoutError, NetworkError or CircuitOpenError.
+export async function postSoap(
+  trace: TraceContext,
+  supplier: Supplier,
+  endpoint: SupplierEndpoint,
+  soapAction: string,
+  soapEnvelope: string,
+  label: string
+): Promise<SoapHttpResponse> {
+  const mode = getTransportMode();
+  if (mode === 'replay') {
+    return replayFixture(trace, supplier, soapAction, soapEnvelope, label);
+  }
+
+  const policy = getPolicy(soapAction);
+  const maxAttempts = policy.retries + 1;
+  const record = (response: SoapHttpResponse): SoapHttpResponse => {
+    if (mode === 'record') {
+      writeFixture(fixturePath(supplier.id, soapAction, soapEnvelope), {
+        supplierId: supplier.id,
+        soapAction,
+        url: endpoint.url,
+        request: soapEnvelope,
+        status: response.status,
+        statusText: response.statusText,
+        body: response.body,
+        recordedAt: new Date().toISOString(),
+      });
+    }
+    return response;
+  };
+
+  const proxyUrl = getProxyUrl();
+  const via = proxyUrl ? ` via ${new URL(proxyUrl).host}` : '';
+
+  checkCircuit(trace, supplier, label);
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    let failure: string;
+
+    try {
+      const response = proxyUrl
+        ? await proxyFetch(proxyUrl, endpoint, soapAction, soapEnvelope, label, policy.timeoutMs)
+        : await directFetch(endpoint, soapAction, soapEnvelope, label, policy.timeoutMs);
+      addDebugLog(
+        trace,
+        `${label} Fetch Status`,
+        undefined,
+        `Status: ${response.status} ${response.statusText}${via}`,
+        undefined,
+        { attempt, durationMs: Date.now() - startedAt }
+      );
+
+      if (!isRetryableResponse(response)) {
+        recordSuccess(supplier);
+        return record(response);
+      }
+      if (attempt >= maxAttempts) {
+        recordFailure(trace, supplier, label);
+        return record(response);
+      }
+      failure = `HTTP ${response.status} ${response.statusText}`.trim();
+    } catch (error) {
+      const durationMs = Date.now() - startedAt;
+      const message = error instanceof Error ? error.message : String(error);
+      // Timeouts aren't retried - another full wait would blow through the route's time budget
+      if (!(error instanceof NetworkError) || attempt >= maxAttempts) {
+        addDebugLog(trace, `${label} Attempt Failed`, undefined, undefined, message, { attempt, durationMs });
+        if (error instanceof PromoStandardsError) error.supplierId = supplier.id;
+        recordFailure(trace, supplier, label);
+        throw error;
+      }
+      failure = message;
+    }
+
+    const delay = backoffDelay(attempt);
+    addDebugLog(
+      trace,
+      `${label} Retry`,
+      undefined,
+      undefined,
+      `Attempt ${attempt}/${maxAttempts} failed (${failure}); retrying in ${delay}ms`,
+      { attempt, durationMs: Date.now() - startedAt }
+    );
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,178 @@
+import { Supplier, SupplierEndpoint, PromoStandardsService } from '../types';
+import { PromoStandardsError } from './errors';
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+// Optional JSON config with extra suppliers or overrides for the built-in ones
+// (see config/suppliers.example.json)
+const CONFIG_FILE = process.env.SUPPLIERS_CONFIG_PATH || join(process.cwd(), 'config', 'suppliers.json');
+
+// Built-in suppliers. Credentials always come from env or the config file.
+const BUILT_IN_SUPPLIERS: Supplier[] = [
+  {
+    id: 'hit',
+    name: 'Hit Promotional Products',
+    aliases: ['hit promo', 'hitpromo', 'hit promotional'],
+    endpoints: {
+      productData: { url: 'https://ppds.hitpromo.net/productData?ws=1', version: '1.0.0' },
+      ppc: { url: 'https://ppds.hitpromo.net/pricingAndConfiguration?ws=1', version: '1.0.0' },
+    },
+    credentials: { username: '', password: '' },
+  },
+];
+
+interface SupplierConfigEntry {
+  id: string;
+  name?: string;
+  aliases?: string[];
+  endpoints?: Partial<Record<PromoStandardsService, SupplierEndpoint>>;
+  credentials?: { username?: string; password?: string };
+}
+
+let registry: Supplier[] | null = null;
+
+// Load supplier entries from the config file, if present
+function loadConfigFile(): SupplierConfigEntry[] {
+  try {
+    if (existsSync(CONFIG_FILE)) {
+      const data = JSON.parse(readFileSync(CONFIG_FILE, 'utf-8'));
+      return Array.isArray(data) ? data : data.suppliers || [];
+    }
+  } catch (error) {
+    console.error(`Error loading ${CONFIG_FILE}:`, error);
+  }
+  return [];
+}
+
+// Env variable prefix for a supplier, e.g. "hit" -> "PS_HIT"
+function envPrefix(supplierId: string): string {
+  return `PS_${supplierId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+function buildRegistry(): Supplier[] {
+  const suppliers = new Map<string, Supplier>();
+
+  for (const supplier of BUILT_IN_SUPPLIERS) {
+    suppliers.set(supplier.id, {
+      ...supplier,
+      endpoints: { ...supplier.endpoints },
+      credentials: { ...supplier.credentials },
+    });
+  }
+
+  // Config file entries add new suppliers or override built-in fields
+  for (const entry of loadConfigFile()) {
+    if (!entry.id) continue;
+    const id = entry.id.toLowerCase();
+    const existing = suppliers.get(id);
+    suppliers.set(id, {
+      id,
+      name: entry.name || existing?.name || entry.id,
+      aliases: entry.aliases || existing?.aliases,
+      endpoints: { ...existing?.endpoints, ...entry.endpoints },
+      credentials: {
+        username: entry.credentials?.username || existing?.credentials.username || '',
+        password: entry.credentials?.password || existing?.credentials.password || '',
+      },
+    });
+  }
+
+  // Env credentials take priority over the config file
+  for (const supplier of suppliers.values()) {
+    const prefix = envPrefix(supplier.id);
+    supplier.credentials = {
+      username: process.env[`${prefix}_USERNAME`] || supplier.credentials.username,
+      password: process.env[`${prefix}_PASSWORD`] || supplier.credentials.password,
+    };
+  }
+
+  return Array.from(suppliers.values());
+}
+
+export function getSuppliers(): Supplier[] {
+  if (!registry) {
+    registry = buildRegistry();
+  }
+  return registry;
+}
+
+export function getSupplier(supplierId: string): Supplier | undefined {
+  const id = supplierId.toLowerCase();
+  return getSuppliers().find(s => s.id === id);
+}
+
+export function getDefaultSupplier(): Supplier {
+  const defaultId = process.env.DEFAULT_SUPPLIER_ID || 'hit';
+  return getSupplier(defaultId) || getSuppliers()[0];
+}
+
+// Resolve a supplier id from the conversation, falling back to the default
+export function resolveSupplier(supplierId?: string): Supplier {
+  if (supplierId) {
+    const supplier = getSupplier(supplierId);
+    if (!supplier) {
+      const error = new PromoStandardsError(
+        'UNKNOWN_SUPPLIER',
+        `Unknown supplier "${supplierId}". Known suppliers: ${getSuppliers().map(s => s.name).join(', ')}`
+      );
+      error.supplierId = supplierId;
+      throw error;
+    }
+    return supplier;
+  }
+  return getDefaultSupplier();
+}
+
+export function getSupplierEndpoint(supplier: Supplier, service: PromoStandardsService): SupplierEndpoint {
+  const endpoint = supplier.endpoints[service];
+  if (!endpoint) {
+    const error = new PromoStandardsError('SERVICE_NOT_CONFIGURED', `${supplier.name} has no ${service} endpoint configured`);
+    error.supplierId = supplier.id;
+    throw error;
+  }
+  return endpoint;
+}
+
+// Find a supplier mentioned in free text ("supplier hit", "from hit", or a name/alias)
+export function findSupplierInText(text: string): Supplier | undefined {
+  const input = text.toLowerCase();
+
+  // Explicit ids only count after "supplier" or "from" - a bare id like "hit" is too ambiguous.
+  // "from supplier hit" names the id after both keywords; every mention is tried.
+  for (const idMatch of Array.from(input.matchAll(/\b(?:(?:supplier|from)[:\s]+)+([a-z0-9_-]+)/g))) {
+    const supplier = getSupplier(idMatch[1]);
+    if (supplier) return supplier;
+  }
+
+  // Check longer names first so "hit promotional products" wins over "hit promo"
+  const candidates = getSuppliers()
+    .flatMap(s => [s.name, ...(s.aliases || [])].map(name => ({ supplier: s, name: name.toLowerCase() })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  for (const { supplier, name } of candidates) {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`\\b${escaped}\\b`).test(input)) {
+      return supplier;
+    }
+  }
+  return undefined;
+}
+
+function normalizeUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Whether a URL is exactly one of the configured supplier endpoints.
+// The SOAP proxy relays only to these, so it can't be pointed at arbitrary hosts.
+export function isRegisteredEndpoint(url: string): boolean {
+  const target = normalizeUrl(url);
+  if (!target) return false;
+  return getSuppliers().some(supplier =>
+    Object.values(supplier.endpoints).some(endpoint => endpoint && normalizeUrl(endpoint.url) === target)
+  );
+}
@@ -0,0 +1,246 @@
+// Minimal namespace-aware XML parser for SOAP responses.
+// Builds a small element tree (no DTD or external entity support - PromoStandards
+// responses never need them, and skipping them keeps the parser safe on untrusted input).
+
+export interface XmlElement {
+  name: string; // Local name without prefix, e.g. "Part"
+  prefix?: string;
+  namespace?: string; // Resolved namespace URI
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Direct text content (including CDATA), untrimmed
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function splitName(qualifiedName: string): { prefix?: string; local: string } {
+  const idx = qualifiedName.indexOf(':');
+  return idx === -1
+    ? { local: qualifiedName }
+    : { prefix: qualifiedName.slice(0, idx), local: qualifiedName.slice(idx + 1) };
+}
+
+interface OpenElement {
+  element: XmlElement;
+  qualifiedName: string;
+  scope: Map<string, string>;
+}
+
+const ATTRIBUTE_REGEX = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Parse an XML document and return its root element
+export function parseXml(xml: string): XmlElement {
+  const stack: OpenElement[] = [];
+  let root: XmlElement | undefined;
+  let pos = 0;
+
+  const rootScope = new Map<string, string>([['xml', XML_NAMESPACE]]);
+
+  const appendText = (text: string) => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.text += text;
+    } else if (text.trim()) {
+      throw new XmlParseError('Text outside of root element', pos);
+    }
+  };
+
+  while (pos < xml.length) {
+    const lt = xml.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(xml.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(xml.slice(pos, lt)));
+    }
+    pos = lt;
+
+    if (xml.startsWith('<?', pos)) {
+      // Processing instruction / XML declaration
+      const end = xml.indexOf('?>', pos);
+      if (end === -1) throw new XmlParseError('Unterminated processing instruction', pos);
+      pos = end + 2;
+    } else if (xml.startsWith('<!--', pos)) {
+      const end = xml.indexOf('-->', pos);
+      if (end === -1) throw new XmlParseError('Unterminated comment', pos);
+      pos = end + 3;
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      const end = xml.indexOf(']]>', pos);
+      if (end === -1) throw new XmlParseError('Unterminated CDATA section', pos);
+      appendText(xml.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (xml.startsWith('<!', pos)) {
+      // DOCTYPE - skipped, internal subsets are not supported
+      const end = xml.indexOf('>', pos);
+      if (end === -1) throw new XmlParseError('Unterminated declaration', pos);
+      pos = end + 1;
+    } else if (xml.startsWith('</', pos)) {
+      const end = xml.indexOf('>', pos);
+      if (end === -1) throw new XmlParseError('Unterminated closing tag', pos);
+      const qualifiedName = xml.slice(pos + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.qualifiedName !== qualifiedName) {
+        throw new XmlParseError(`Unexpected closing tag </${qualifiedName}>`, pos);
+      }
+      pos = end + 1;
+    } else {
+      // Opening or self-closing tag - find the closing ">" outside of quoted values
+      let end = pos + 1;
+      let quote: string | null = null;
+      while (end < xml.length) {
+        const ch = xml[end];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === '>') {
+          break;
+        }
+        end++;
+      }
+      if (end >= xml.length) throw new XmlParseError('Unterminated opening tag', pos);
+
+      let tagContent = xml.slice(pos + 1, end);
+      const selfClosing = tagContent.endsWith('/');
+      if (selfClosing) tagContent = tagContent.slice(0, -1);
+
+      const nameMatch = tagContent.match(/^[^\s/>]+/);
+      if (!nameMatch) throw new XmlParseError('Missing element name', pos);
+      const qualifiedName = nameMatch[0];
+
+      // Collect attributes and namespace declarations
+      const parentScope = stack.length > 0 ? stack[stack.length - 1].scope : rootScope;
+      let scope = parentScope;
+      const rawAttributes: Array<[string, string]> = [];
+      ATTRIBUTE_REGEX.lastIndex = qualifiedName.length;
+      let attrMatch;
+      while ((attrMatch = ATTRIBUTE_REGEX.exec(tagContent)) !== null) {
+        const attrName = attrMatch[1];
+        const attrValue = decodeEntities(attrMatch[2] ?? attrMatch[3] ?? '');
+        if (attrName === 'xmlns' || attrName.startsWith('xmlns:')) {
+          if (scope === parentScope) scope = new Map(parentScope);
+          scope.set(attrName === 'xmlns' ? '' : attrName.slice(6), attrValue);
+        } else {
+          rawAttributes.push([attrName, attrValue]);
+        }
+      }
+
+      const { prefix, local } = splitName(qualifiedName);
+      const namespace = scope.get(prefix ?? '');
+      if (prefix && namespace === undefined) {
+        throw new XmlParseError(`Undeclared namespace prefix "${prefix}"`, pos);
+      }
+
+      // Attributes are keyed by local name; unprefixed attributes have no namespace
+      const attributes: Record<string, string> = {};
+      for (const [attrName, attrValue] of rawAttributes) {
+        attributes[splitName(attrName).local] = attrValue;
+      }
+
+      const element: XmlElement = { name: local, prefix, namespace, attributes, children: [], text: '' };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].element.children.push(element);
+      } else if (root) {
+        throw new XmlParseError('Multiple root elements', pos);
+      } else {
+        root = element;
+      }
+
+      if (!selfClosing) {
+        stack.push({ element, qualifiedName, scope });
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].qualifiedName}>`, pos);
+  }
+  if (!root) {
+    throw new XmlParseError('No root element', 0);
+  }
+  return root;
+}
+
+// Escape a value for use in XML text or attribute content
+export function escapeXml(value: string | number | boolean): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ============ Tree Helpers ============
+// All helpers accept undefined so optional arrays can be walked without guards.
+
+function matches(element: XmlElement, name: string, namespace?: string): boolean {
+  return element.name === name && (namespace === undefined || element.namespace === namespace);
+}
+
+// First direct child with this local name
+export function findChild(element: XmlElement | undefined, name: string, namespace?: string): XmlElement | undefined {
+  return element?.children.find(c => matches(c, name, namespace));
+}
+
+// All direct children with this local name
+export function findChildren(element: XmlElement | undefined, name: string, namespace?: string): XmlElement[] {
+  return element ? element.children.filter(c => matches(c, name, namespace)) : [];
+}
+
+// Trimmed text of the first direct child with this local name
+export function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const child = findChild(element, name);
+  if (!child) return undefined;
+  const text = child.text.trim();
+  return text === '' ? undefined : text;
+}
+
+// First descendant (depth-first) with this local name
+export function findDescendant(element: XmlElement | undefined, name: string, namespace?: string): XmlElement | undefined {
+  if (!element) return undefined;
+  for (const child of element.children) {
+    if (matches(child, name, namespace)) return child;
+    const found = findDescendant(child, name, namespace);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// Walk a path of child names, e.g. ["PartArray", "Part"] -> all Part elements
+export function findPath(element: XmlElement | undefined, path: string[]): XmlElement[] {
+  let current: XmlElement[] = element ? [element] : [];
+  for (const name of path) {
+    current = current.flatMap(el => findChildren(el, name));
+  }
+  return current;
+}
@@ -1,3 +1,31 @@
+// Supplier Registry Types
+export type PromoStandardsService =
+  | 'productData'
+  | 'ppc'
+  | 'inventory'
+  | 'purchaseOrder'
+  | 'orderStatus'
+  | 'orderShipmentNotification'
+  | 'mediaContent';
+
+export interface SupplierEndpoint {
+  url: string;
+  version: string; // WSDL version, e.g. "1.0.0"
+}
+
+export interface SupplierCredentials {
+  username: string;
+  password: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  aliases?: string[]; // Extra names users may type, e.g. "hit promo"
+  endpoints: Partial<Record<PromoStandardsService, SupplierEndpoint>>;
+  credentials: SupplierCredentials;
+}
+
 // PromoStandards API Types
 export interface PartPrice {
   minQuantity: number;
@@ -8,7 +36,9 @@ export interface PartPrice {
 export interface Part {
   partId: string;
   partDescription: string;
-  partGroup?: number;
+  partGroup?: number; // 1 (or absent) = the product itself; 2+ = accessory groups such as lids
+  partGroupDescription?: string; // e.g. "Lid"
+  ratio?: number; // Accessory pieces per product piece (1 when absent)
   priceBreaks: PartPrice[];
 }
 
@@ -18,14 +48,14 @@ export interface ChargePrice {
   yMinQty: number;
   yUom: string;
   price: number;
-  repeatPrice: number;
+  repeatPrice?: number; // Not every supplier sends one - repeat setups then cost the full price
 }
 
 export interface Charge {
   chargeId: string;
   chargeName: string;
   chargeDescription: string;
-  chargeType: "Setup" | "Run";
+  chargeType: "Setup" | "Run" | "Order"; // Order charges apply once per order
   priceArray: ChargePrice[];
 }
 
@@ -49,15 +79,157 @@ export interface Location {
   defaultLocation: boolean;
 }
 
+// ServiceMessage (or 1.0.0 ErrorMessage) returned alongside a PromoStandards response
+export interface ServiceMessage {
+  code: string;
+  description: string;
+  severity: 'Error' | 'Warning' | 'Information';
+}
+
 export interface PricingConfiguration {
   productId: string;
   currency: string;
+  fobId: string; // FOB point these prices are for
+  fobPoints: FobPoint[]; // Every FOB point the product ships from
+  priceType: string;
+  configurationType: ConfigurationType;
   parts: Part[];
   locations: Location[];
 }
 
+// Decorated quotes include locations and decoration charges; Blank quotes the bare goods
+export type ConfigurationType = 'Decorated' | 'Blank';
+
+// Request options for getConfigurationAndPricing (defaults: first FOB point, USD, Net, Decorated)
+export interface PricingOptions {
+  fobId?: string;
+  currency?: string;
+  priceType?: string;
+  configurationType?: ConfigurationType;
+}
+
+// Product Data Types
+export interface ProductColor {
+  colorName: string;
+  hex?: string; // e.g. "000000"
+  approximatePms?: string;
+  standardColorName?: string;
+}
+
+export interface ProductDimensions {
+  dimensionUom?: string;
+  depth?: number;
+  height?: number;
+  width?: number;
+  weightUom?: string;
+  weight?: number;
+}
+
+export interface ProductPart {
+  partId: string;
+  description: string;
+  colors: ProductColor[];
+  dimensions?: ProductDimensions;
+  primaryMaterial?: string;
+  countryOfOrigin?: string;
+  leadTime?: number; // Days
+  isRushService: boolean;
+  isCloseout: boolean;
+  isHazmat: boolean;
+}
+
+export interface ProductCategory {
+  category: string;
+  subCategory?: string;
+}
+
+export interface FobPoint {
+  fobId: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface ProductCompliance {
+  complianceInfoAvailable: boolean;
+  isCaution: boolean;
+  cautionComment?: string;
+  isCloseout: boolean;
+  isHazmat: boolean; // True if any part is hazmat
+}
+
+export interface ProductData {
+  productId: string;
+  productName: string;
+  description: string;
+  brand?: string;
+  lineName?: string;
+  imprintSize?: string;
+  primaryImageUrl?: string;
+  leadTime?: number; // Shortest part lead time in days
+  categories: ProductCategory[];
+  keywords: string[];
+  parts: ProductPart[];
+  fobPoints: FobPoint[];
+  compliance: ProductCompliance;
+}
+
+// Media Content Types
+export interface MediaImage {
+  url: string;
+  partId?: string; // Unset for product-level images
+  description?: string;
+  classTypes: string[]; // e.g. "Primary", "Front", "Blank"
+  color?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface ProductMedia {
+  productId: string;
+  images: MediaImage[];
+  partImages: Record<string, string>; // partId -> best image URL for that part
+  primaryImageUrl?: string;
+  fetchedAt: string;
+}
+
+// Inventory 2.0.0 Types
+export interface InventoryLocation {
+  locationId: string;
+  locationName: string;
+  postalCode?: string;
+  country?: string;
+  quantityAvailable: number;
+}
+
+export interface PartInventory {
+  partId: string;
+  partDescription?: string;
+  quantityAvailable: number;
+  manufacturedItem: boolean;
+  buyToOrder: boolean;
+  locations: InventoryLocation[];
+}
+
+export interface InventoryLevels {
+  productId: string;
+  parts: PartInventory[];
+  checkedAt: string;
+}
+
 // Order Entry Types
+
+// One decoration on the goods, e.g. "2 color back". The first imprint of an order lives
+// in decorationMethod/decorationLocation/decorationColors; any more in additionalImprints.
+export interface ImprintSelection {
+  decorationMethod?: string;
+  decorationLocation?: string;
+  decorationColors?: number;
+}
+
 export interface ParsedRequest {
+  supplierId?: string;
   productId?: string;
   quantity?: number;
   color?: string;
@@ -65,6 +237,12 @@ export interface ParsedRequest {
   decorationMethod?: string;
   decorationLocation?: string;
   decorationColors?: number;
+  additionalImprints?: ImprintSelection[]; // e.g. "1 color front, 2 color back" - the back imprint
+  accessories?: string[]; // Add-ons named in the request, e.g. "black lid"; matched to parts once priced
+  blank?: boolean; // Undecorated goods - no imprint, no decoration charges
+  currency?: string;
+  repeat?: boolean; // Reorder of earlier goods - setups are charged at repeatPrice
+  repeatPoNumber?: string; // PO being repeated, when given
 }
 
 export interface Question {
@@ -74,6 +252,8 @@ export interface Question {
 }
 
 export interface LineItemCharge {
+  chargeId?: string;
+  chargeType?: "Setup" | "Run" | "Order";
   name: string;
   description: string;
   quantity: number;
@@ -81,6 +261,36 @@ export interface LineItemCharge {
   extendedPrice: number;
 }
 
+export interface LineItemImprint {
+  decorationMethod: string;
+  decorationLocation: string;
+  decorationColors: number;
+  charges: LineItemCharge[]; // Setup and run charges for this imprint
+}
+
+// An add-on part (partGroup 2+) ordered with the product
+export interface LineItemAccessory {
+  partId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  extendedPrice: number;
+}
+
+// The part's next quantity price break, priced in full (accessories and charges included)
+export interface PriceBreakSuggestion {
+  quantity: number;
+  unitPrice: number;
+  totalWithCharges: number;
+  difference: number; // Total at this quantity minus the line's total; negative means it saves money
+}
+
+export interface LineItemStock {
+  quantityAvailable: number;
+  locations: InventoryLocation[];
+  insufficient: boolean; // Ordered quantity is more than what's available
+}
+
 export interface OrderLineItem {
   productId: string;
   productName: string;
@@ -89,27 +299,113 @@ export interface OrderLineItem {
   quantity: number;
   unitPrice: number;
   extendedPrice: number;
-  decorationMethod?: string;
-  decorationLocation?: string;
-  decorationColors?: number;
-  charges: LineItemCharge[];
+  imprints: LineItemImprint[]; // Empty for blank goods
+  accessories: LineItemAccessory[];
+  charges: LineItemCharge[]; // Every imprint's charges plus once-per-order charges
   totalWithCharges: number;
+  stock?: LineItemStock;
+  imageUrl?: string;
+  pricingAsOf?: string;
+  fobPoint?: FobPoint; // Ship-from point the prices are for
+  currency?: string; // Currency of every amount on the line (USD when absent)
+  priceType?: string; // Supplier price type of unitPrice, e.g. Net
+  listUnitPrice?: number; // Supplier List price for comparison, when it differs from priceType
+  listExtendedPrice?: number;
+  repeat?: boolean; // Setup charges use the supplier's repeat price
+  repeatPoNumber?: string;
+  nextPriceBreak?: PriceBreakSuggestion; // When ordering a little more is cheaper or nearly so
+}
+
+// Purchase Order 1.0.0 Types
+export interface ShipToAddress {
+  attentionTo?: string;
+  companyName: string;
+  address1: string;
+  address2?: string;
+  city: string;
+  region: string; // State or province code
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2, e.g. "US"
+  email?: string;
+  phone?: string;
+}
+
+export interface PurchaseOrderDetails {
+  poNumber: string;
+  shipTo: ShipToAddress;
+  rush?: boolean;
+}
+
+export interface PurchaseOrderResult {
+  poNumber: string;
+  dryRun: boolean;
+  transactionId?: string; // Returned by the supplier when the PO is accepted
+  xml?: string; // sendPO request body, returned for dry runs
+  submittedAt: string;
+}
+
+// Order Status 1.0.0 / Order Shipment Notification 1.0.0 Types
+export interface OrderStatusDetail {
+  salesOrderNumber?: string; // factoryOrderNumber in the response
+  statusId: string;
+  statusName: string;
+  expectedShipDate?: string;
+  expectedDeliveryDate?: string;
+  additionalExplanation?: string;
+  validTimestamp?: string;
+}
+
+export interface OrderStatus {
+  purchaseOrderNumber: string;
+  details: OrderStatusDetail[];
+}
+
+export interface ShipmentPackage {
+  trackingNumber?: string;
+  carrier?: string;
+  shipmentMethod?: string;
+  shipmentDate?: string;
+}
+
+export interface OrderShipment {
+  purchaseOrderNumber: string;
+  salesOrderNumber?: string;
+  complete: boolean;
+  packages: ShipmentPackage[];
 }
 
 export interface ConversationState {
+  supplierId: string;
   parsedRequest: ParsedRequest;
   selectedOptions: Record<string, any>;
   questions: Question[];
   pricingData?: PricingConfiguration;
+  listPricingData?: PricingConfiguration; // List prices for the same FOB/currency, shown next to our cost
+  listPricingUnavailable?: string; // FOB/currency/configuration whose List pricing request failed - not retried
+  productData?: ProductData;
+  media?: ProductMedia;
+  pricingAsOf?: string; // When pricingData was fetched from the supplier (may be cached)
+  inventory?: InventoryLevels;
   lineItem?: OrderLineItem;
+  purchaseOrder?: PurchaseOrderResult;
 }
 
 // Available options for display in the UI
 export interface AvailableOptions {
-  colors: Array<{ partId: string; name: string; selected: boolean }>;
+  colors: Array<{ partId: string; name: string; selected: boolean; stock?: number; imageUrl?: string }>;
   decorationMethods: Array<{ id: string; name: string; selected: boolean }>;
   decorationLocations: Array<{ id: string; name: string; selected: boolean }>;
   decorationColors: { min: number; max: number; selected: number | null };
+  fobPoints: Array<{ id: string; name: string; selected: boolean }>;
+  currencies: Array<{ id: string; name: string; selected: boolean }>;
+  priceTypes: Array<{ id: string; name: string; selected: boolean }>;
+  orderTypes: Array<{ id: 'new' | 'repeat'; name: string; selected: boolean }>;
+  // One optional section per accessory group; at most one part is chosen from each
+  accessoryGroups: Array<{
+    partGroup: number;
+    name: string;
+    parts: Array<{ partId: string; name: string; unitPrice: number; selected: boolean }>;
+  }>;
 }
 
 // What fields are still required
@@ -119,15 +415,45 @@ export interface RequiredFields {
   decorationMethod: boolean;
   decorationLocation: boolean;
   decorationColors: boolean;
+  additionalImprints: boolean; // An added imprint still needs a method or location
+  minimumQuantity?: number; // Set when the quantity is below the product's minimum order
 }
 
 // Debug log entry for API calls
 export interface DebugLogEntry {
   timestamp: string;
+  correlationId: string; // Shared by every entry from one API request
   operation: string;
   request?: string;
   response?: string;
   error?: string;
+  attempt?: number; // 1-based attempt number for retried SOAP calls
+  durationMs?: number;
+}
+
+// Error codes surfaced to the UI
+export type ApiErrorCode =
+  | 'AUTH_FAILED' // Supplier rejected our credentials
+  | 'PRODUCT_NOT_FOUND'
+  | 'SOAP_FAULT'
+  | 'SERVICE_ERROR' // ServiceMessage/ErrorMessage we don't classify further
+  | 'HTTP_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'SUPPLIER_UNAVAILABLE' // Circuit breaker open after repeated failures
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN_SUPPLIER'
+  | 'SERVICE_NOT_CONFIGURED'
+  | 'MISSING_PRODUCT_ID'
+  | 'INVALID_REQUEST'
+  | 'INTERNAL_ERROR';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  supplierId?: string;
+  faultCode?: string; // SOAP faultcode or ServiceMessage code
+  httpStatus?: number;
 }
 
 // Extended API response for better UI
@@ -135,10 +461,12 @@ export interface OrderApiResponse {
   success: boolean;
   state: ConversationState;
   message: string;
-  error?: string;
+  error?: ApiError;
   availableOptions?: AvailableOptions;
   requiredFields?: RequiredFields;
   productInfo?: {
+    supplierId: string;
+    supplierName: string;
     productId: string;
     productName: string;
     quantity: number;